@@ -1,132 +1,157 @@
-class Rain {
-  private ctx: CanvasRenderingContext2D;
-  private canvas: HTMLCanvasElement;
-  private drops: { x: number; y: number; speed: number; length: number }[];
-
-  constructor(
-    ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
-    dropCount: number = 100
-  ) {
-    this.ctx = ctx;
-    this.canvas = canvas;
-    this.drops = this.createRaindrops(dropCount);
-  }
-
-  private createRaindrops(count: number) {
-    return Array.from({ length: count }, () => ({
-      x: Math.random() * this.canvas.width,
-      y: Math.random() * this.canvas.height,
-      speed: Math.random() * 5 + 5,
-      length: Math.random() * 10 + 10,
-    }));
-  }
-
-  update(deltaTime: number) {
-    this.drops.forEach((drop) => {
-      drop.y += drop.speed;
-      if (drop.y > this.canvas.height) {
-        drop.y = 0 - drop.length;
-        drop.x = Math.random() * this.canvas.width;
-      }
-    });
-  }
-
-  draw() {
-    this.ctx.strokeStyle = "rgba(174, 194, 224, 0.5)";
-    this.ctx.lineWidth = 1;
-    this.ctx.beginPath();
-    this.drops.forEach((drop) => {
-      this.ctx.moveTo(drop.x, drop.y);
-      this.ctx.lineTo(drop.x, drop.y + drop.length);
-    });
-    this.ctx.stroke();
-  }
-}
-
-class Canvas {
-  public element: HTMLCanvasElement;
-  public ctx: CanvasRenderingContext2D;
-
-  constructor(
-    width: number = 800,
-    height: number = 600,
-    id: string = "canvas"
-  ) {
-    this.element = document.getElementById(id) as HTMLCanvasElement;
-    if (!this.element) throw new Error("Canvas element not found");
-    this.ctx = this.element.getContext("2d")!;
-    this.element.width = width;
-    this.element.height = height;
-  }
-
-  clear() {
-    this.ctx.fillStyle = "black";
-    this.ctx.fillRect(0, 0, this.element.width, this.element.height);
-  }
-
-  fadeBackground() {
-    this.ctx.fillStyle = "rgba(0, 0, 0, 0.1)";
-    this.ctx.fillRect(0, 0, this.element.width, this.element.height);
-  }
-}
+import { SpriteSheet, SpriteAnimator } from "./lib/sprite-sheet";
+import type { AnimationClip } from "./lib/sprite-sheet";
+import { AudioManager } from "./lib/audio-manager";
+import { Canvas } from "./lib/canvas";
+import type { Renderer } from "./lib/renderer";
+import { Random } from "./lib/random";
+import { FixedTimestep, lerp } from "./lib/fixed-timestep";
+import { InputManager } from "./lib/input";
+import type { Bindings } from "./lib/input";
+import { TouchControls } from "./lib/touch-controls";
+import { ControlsScreen } from "./lib/controls-screen";
+import { HighScoreStorage, formatTime } from "./lib/high-scores";
+import { NameEntry } from "./lib/name-entry";
+import { WaveDirector, loadWaveScript } from "./lib/waves";
+import type { WaveScript, SpawnRequest } from "./lib/waves";
+import { BulletEmitter } from "./lib/bullet-patterns";
+import { ParticleSystem } from "./lib/particles";
+import { ObjectPool, EntityList } from "./lib/pool";
+import { SpatialHash, CollisionStats, aabbOverlap, shapesOverlap, shapeBounds, box, circle, sweptCircle } from "./lib/collision";
+import type { Aabb, Circle, Shape } from "./lib/collision";
+import type { EmitterConfig } from "./lib/particles";
+import type { BulletPattern, BulletSpec } from "./lib/bullet-patterns";
+import { ReplayRecorder, ReplayPlayer, ReplayError, parseReplay, serializeReplay } from "./lib/replay";
+import type { Replay } from "./lib/replay";
+import { Log } from "./lib/log";
+import { DevOverlay, drawShape, drawGridLines } from "./lib/dev-overlay";
+import { Weather, loadWeatherSchedule, presetAt } from "./lib/weather";
+import type { WeatherPreset, WeatherSchedule } from "./lib/weather";
+import defaultWaves from "../data/001-waves.json";
+import defaultWeather from "../data/001-weather.json";
+import playerSpriteUrl from "../assets/sprites/8-bits-characters-gaming-assets.jpg?url";
+import shootSoundUrl from "../assets/audio/shoot.wav?url";
+
+const log = new Log("shooter");
+
+type PlayerAnimationState = "idle" | "move-left" | "move-right" | "dash" | "hit";
+
+// The sheet is a 4x2 grid of right-facing frames: top row is the run cycle,
+// bottom row is the lunge used for dashing. Left-facing clips are mirrored.
+const playerClips: { [state in PlayerAnimationState]: AnimationClip } = {
+  idle: { frames: [0], frameRate: 1, loop: true },
+  "move-right": { frames: [0, 1, 2, 3], frameRate: 10, loop: true },
+  "move-left": { frames: [0, 1, 2, 3], frameRate: 10, loop: true, flipX: true },
+  dash: { frames: [4, 5, 6, 7], frameRate: 24, loop: false },
+  hit: { frames: [6, 2, 6, 2], frameRate: 12, loop: false },
+};
 
 class Player {
-  private playerSprite: HTMLImageElement;
+  private sheet: SpriteSheet;
+  private animator: SpriteAnimator;
   private width: number = 50;
   private height: number = 50;
+  private hurtboxRadius: number = 12; // Only the core of the sprite can be hit
   private x: number = 0;
   private y: number = 0;
-  private isLoaded: boolean = false;
-  private speed: number = 5;
+  private prevX: number = 0;
+  private prevY: number = 0;
+  private speed: number = 300; // Pixels per second
+  private time: number = 0; // Simulation clock in milliseconds, advanced by update()
   private dashSpeed: number = 80; // Increased dash speed for a longer dash
   private dashDuration: number = 150; // Dash duration in milliseconds
+  private dashCooldown: number = 600; // Milliseconds from the start of one dash to the next
+  private dashCooldownScale: number = 1; // Lowered by the dash power-up
+  private dashReadyTime: number = 0;
   private isDashing: boolean = false;
   private dashDirection: "up" | "down" | "left" | "right" | null = null;
   private dashEndTime: number = 0;
+  private hitDuration: number = 400; // How long the hit clip plays after a respawn
+  private hitEndTime: number = 0;
+  private facing: "left" | "right" = "right";
+  private isMoving: boolean = false;
+  private invulnerableUntil: number = 0;
+  private dashInvulnerable: boolean = false;
+  private blinkInterval: number = 100; // Milliseconds per blink phase while invulnerable
 
   constructor() {
-    this.playerSprite = new Image();
-    this.playerSprite.onload = () => {
-      this.isLoaded = true;
-      console.log("Player sprite loaded successfully");
-    };
-    this.playerSprite.onerror = (e) => {
-      console.error("Error loading player sprite:", e);
-    };
-    this.playerSprite.src =
-      "../assets/sprites/8-bits-characters-gaming-assets.jpg";
+    this.sheet = new SpriteSheet(playerSpriteUrl, { columns: 4, rows: 2 });
+    this.animator = new SpriteAnimator(this.sheet, playerClips, "idle");
+  }
+
+  destroy() {
+    this.sheet.destroy();
   }
 
-  draw(ctx: CanvasRenderingContext2D) {
-    if (this.isLoaded) {
-      // Draw the player sprite
-      ctx.drawImage(this.playerSprite, this.x, this.y, this.width, this.height);
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+    const x = lerp(this.prevX, this.x, alpha);
+    const y = lerp(this.prevY, this.y, alpha);
+
+    ctx.save();
+    if (this.time < this.invulnerableUntil) {
+      // Blink between faint and solid while the respawn window lasts
+      const phase = Math.floor(this.time / this.blinkInterval) % 2;
+      ctx.globalAlpha = phase === 0 ? 0.25 : 0.8;
+    } else if (this.isDashing && this.dashInvulnerable) {
+      ctx.globalAlpha = 0.5;
+    }
+
+    if (this.animator.isLoaded) {
+      this.animator.draw(ctx, x, y, this.width, this.height);
     } else {
       // Draw a placeholder rectangle if the image hasn't loaded
       ctx.fillStyle = "blue";
-      ctx.fillRect(this.x, this.y, this.width, this.height);
+      ctx.fillRect(x, y, this.width, this.height);
     }
+    ctx.restore();
+  }
+
+  makeInvulnerable(duration: number) {
+    this.invulnerableUntil = this.time + duration;
+  }
+
+  setDashInvulnerable(enabled: boolean) {
+    this.dashInvulnerable = enabled;
+  }
+
+  // 0 right after dashing, 1 once the next dash is available
+  getDashReadiness(): number {
+    const remaining = this.dashReadyTime - this.time;
+    return remaining <= 0 ? 1 : Math.max(0, 1 - remaining / (this.dashCooldown * this.dashCooldownScale));
+  }
 
-    // Draw a box around the player
-    ctx.strokeStyle = "red";
-    ctx.lineWidth = 2;
-    ctx.strokeRect(this.x, this.y, this.width, this.height);
+  setDashCooldownScale(scale: number) {
+    this.dashCooldownScale = scale;
   }
 
-  move(direction: "up" | "down" | "left" | "right", canvasWidth: number, canvasHeight: number) {
+  isInvulnerable(): boolean {
+    return this.time < this.invulnerableUntil || (this.isDashing && this.dashInvulnerable);
+  }
+
+  // Call once at the start of every simulation step, before any movement
+  beginStep() {
+    this.prevX = this.x;
+    this.prevY = this.y;
+  }
+
+  move(direction: "up" | "down" | "left" | "right", deltaTime: number, canvasWidth: number, canvasHeight: number) {
+    this.isMoving = true;
+    if (direction === "left" || direction === "right") {
+      this.facing = direction;
+    }
+
+    const distance = this.speed * deltaTime;
     switch (direction) {
       case "up":
-        this.y = Math.max(0, this.y - this.speed);
+        this.y = Math.max(0, this.y - distance);
         break;
       case "down":
-        this.y = Math.min(canvasHeight - this.height, this.y + this.speed);
+        this.y = Math.min(canvasHeight - this.height, this.y + distance);
         break;
       case "left":
-        this.x = Math.max(0, this.x - this.speed);
+        this.x = Math.max(0, this.x - distance);
         break;
       case "right":
-        this.x = Math.min(canvasWidth - this.width, this.x + this.speed);
+        this.x = Math.min(canvasWidth - this.width, this.x + distance);
         break;
     }
   }
@@ -138,6 +163,17 @@ class Player {
     };
   }
 
+  // Swept over the whole step, so a dash can't hop over an enemy or bullet
+  getHurtbox(): Shape {
+    return sweptCircle(
+      this.prevX + this.width / 2,
+      this.prevY + this.height / 2,
+      this.x + this.width / 2,
+      this.y + this.height / 2,
+      this.hurtboxRadius
+    );
+  }
+
   getPosition(): { x: number; y: number; width: number; height: number } {
     return { x: this.x, y: this.y, width: this.width, height: this.height };
   }
@@ -145,18 +181,40 @@ class Player {
   respawn(canvasWidth: number, canvasHeight: number) {
     this.x = (canvasWidth - this.width) / 2;
     this.y = canvasHeight - this.height - 10; // 10 pixels above the bottom
+    this.prevX = this.x; // Teleport, don't interpolate across the screen
+    this.prevY = this.y;
+    this.hitEndTime = this.time + this.hitDuration;
+  }
+
+  reset(canvasWidth: number, canvasHeight: number) {
+    this.time = 0;
+    this.isDashing = false;
+    this.dashDirection = null;
+    this.dashEndTime = 0;
+    this.dashReadyTime = 0;
+    this.invulnerableUntil = 0;
+    this.isMoving = false;
+    this.facing = "right";
+    this.respawn(canvasWidth, canvasHeight);
+    this.hitEndTime = 0; // A fresh start shouldn't play the hit clip
+    this.animator.play("idle", true);
   }
 
   stopMoving() {
     // Removed unused property
   }
 
-  dash(direction: "up" | "down" | "left" | "right", canvasWidth: number, canvasHeight: number) {
-    console.log(`Dash called: ${direction}`);
-    if (!this.isDashing) {
+  // Returns true if a new dash was started
+  dash(direction: "up" | "down" | "left" | "right", canvasWidth: number, canvasHeight: number): boolean {
+    log.debug(`Dash called: ${direction}`);
+    if (!this.isDashing && this.time >= this.dashReadyTime) {
       this.isDashing = true;
       this.dashDirection = direction;
-      this.dashEndTime = Date.now() + this.dashDuration;
+      this.dashReadyTime = this.time + this.dashCooldown * this.dashCooldownScale;
+      if (direction === "left" || direction === "right") {
+        this.facing = direction;
+      }
+      this.dashEndTime = this.time + this.dashDuration;
 
       // Perform the dash movement
       switch (direction) {
@@ -173,92 +231,384 @@ class Player {
           this.x = Math.min(canvasWidth - this.width, this.x + this.dashSpeed);
           break;
       }
-      console.log(`Dash performed: ${direction}, new position: (${this.x}, ${this.y})`);
+      log.debug(`Dash performed: ${direction}, new position: (${this.x}, ${this.y})`);
+      return true;
     }
+    return false;
   }
 
   update(deltaTime: number, canvasWidth: number, canvasHeight: number) {
-    if (this.isDashing && Date.now() > this.dashEndTime) {
+    this.time += deltaTime * 1000;
+
+    if (this.isDashing && this.time > this.dashEndTime) {
       this.isDashing = false;
       this.dashDirection = null;
-      console.log('Dash ended');
+      log.debug("Dash ended");
     }
+
+    this.animator.play(this.getAnimationState());
+    this.animator.update(deltaTime);
+    this.isMoving = false;
+  }
+
+  private getAnimationState(): PlayerAnimationState {
+    if (this.time < this.hitEndTime) return "hit";
+    if (this.isDashing) return "dash";
+    if (this.isMoving) return this.facing === "left" ? "move-left" : "move-right";
+    return "idle";
   }
 }
 
 class Projectile {
-  private x: number;
-  private y: number;
-  private speed: number = 10;
+  private x: number = 0;
+  private y: number = 0;
+  private prevX: number = 0;
+  private prevY: number = 0;
+  private vx: number = 0;
+  private vy: number = 0;
+  private speed: number = 600; // Pixels per second
   private radius: number = 5;
+  private pierce: number = 0; // Extra enemies it can pass through
+  private hitTargets: Set<number> = new Set(); // Enemy ids, which survive pooling unlike references
 
-  constructor(x: number, y: number) {
+  // Projectiles are pooled, so init() rather than the constructor sets them up.
+  // angle is in degrees from straight up, positive leaning right.
+  init(x: number, y: number, angle: number = 0, pierce: number = 0) {
     this.x = x;
     this.y = y;
+    this.prevX = x;
+    this.prevY = y;
+    const radians = (angle * Math.PI) / 180;
+    this.vx = Math.sin(radians) * this.speed;
+    this.vy = -Math.cos(radians) * this.speed;
+    this.pierce = pierce;
+    this.hitTargets.clear();
   }
 
-  update() {
-    this.y -= this.speed;
+  // wind is extra sideways speed in pixels per second
+  update(deltaTime: number, wind: number = 0) {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.x += (this.vx + wind) * deltaTime;
+    this.y += this.vy * deltaTime;
   }
 
-  draw(ctx: CanvasRenderingContext2D) {
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
     ctx.beginPath();
-    ctx.arc(this.x, this.y, this.radius, 0, Math.PI * 2);
-    ctx.fillStyle = "yellow";
+    ctx.arc(lerp(this.prevX, this.x, alpha), lerp(this.prevY, this.y, alpha), this.radius, 0, Math.PI * 2);
+    ctx.fillStyle = this.pierce > 0 ? "orange" : "yellow";
     ctx.fill();
     ctx.closePath();
   }
 
-  isOffScreen(): boolean {
-    return this.y + this.radius < 0;
+  isOffScreen(canvasWidth: number): boolean {
+    return this.y + this.radius < 0 || this.x + this.radius < 0 || this.x - this.radius > canvasWidth;
   }
 
-  collidesWith(target: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }): boolean {
-    return (
-      this.x > target.x &&
-      this.x < target.x + target.width &&
-      this.y > target.y &&
-      this.y < target.y + target.height
-    );
+  // A piercing round never hits the same enemy twice
+  canHit(target: { id: number }): boolean {
+    return !this.hitTargets.has(target.id);
+  }
+
+  // Returns true when the projectile is used up
+  registerHit(target: { id: number }): boolean {
+    this.hitTargets.add(target.id);
+    return this.pierce-- <= 0;
+  }
+
+  // Everything the bullet passed through this step
+  getShape(): Shape {
+    return sweptCircle(this.prevX, this.prevY, this.x, this.y, this.radius);
   }
+
+  collidesWith(target: Aabb): boolean {
+    return shapesOverlap(this.getShape(), box(target));
+  }
+}
+
+type PowerUpType = "spread" | "rapid" | "pierce" | "shield" | "dashBoost" | "extraLife";
+
+interface PowerUpDefinition {
+  label: string; // Single letter drawn on the pickup
+  color: string;
+  duration: number; // Milliseconds, 0 for instant pickups
+  weight: number; // Relative drop chance
 }
 
-class Enemy {
+const powerUpDefinitions: { [type in PowerUpType]: PowerUpDefinition } = {
+  spread: { label: "S", color: "orange", duration: 10000, weight: 5 },
+  rapid: { label: "R", color: "yellow", duration: 8000, weight: 5 },
+  pierce: { label: "P", color: "tomato", duration: 8000, weight: 3 },
+  shield: { label: "O", color: "deepskyblue", duration: 0, weight: 3 },
+  dashBoost: { label: "D", color: "cyan", duration: 12000, weight: 3 },
+  extraLife: { label: "♥", color: "hotpink", duration: 0, weight: 1 },
+};
+
+const timedPowerUps = ["spread", "rapid", "pierce", "dashBoost"] as const;
+type TimedPowerUp = (typeof timedPowerUps)[number];
+
+// A pickup drifting down from where an enemy died
+class PowerUp {
+  public readonly type: PowerUpType;
   public x: number;
   public y: number;
+  public width: number = 22;
+  public height: number = 22;
+  private prevY: number;
+  private speed: number = 90;
+
+  constructor(type: PowerUpType, centerX: number, centerY: number) {
+    this.type = type;
+    this.x = centerX - this.width / 2;
+    this.y = centerY - this.height / 2;
+    this.prevY = this.y;
+  }
+
+  update(deltaTime: number) {
+    this.prevY = this.y;
+    this.y += this.speed * deltaTime;
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+    const definition = powerUpDefinitions[this.type];
+    const y = lerp(this.prevY, this.y, alpha);
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(this.x + this.width / 2, y + this.height / 2, this.width / 2, 0, Math.PI * 2);
+    ctx.fillStyle = definition.color;
+    ctx.fill();
+    ctx.fillStyle = "black";
+    ctx.font = "bold 13px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(definition.label, this.x + this.width / 2, y + this.height / 2 + 1);
+    ctx.restore();
+  }
+
+  isOffScreen(canvasHeight: number): boolean {
+    return this.y > canvasHeight;
+  }
+}
+
+// Tracks what the player has collected. Stacking rules:
+// - timed pickups add their duration again, capped at twice the base duration
+// - spread also gains a level per pickup (3-way, then 5-way)
+// - the shield holds a single charge that absorbs the next hit
+// Everything is lost together with a life.
+class PlayerUpgrades {
+  private expiresAt: Map<TimedPowerUp, number> = new Map();
+  private spreadLevel: number = 0;
+  private maxSpreadLevel: number = 2;
+  public shieldCharges: number = 0;
+
+  // Returns false when the pickup had nothing left to add
+  apply(type: Exclude<PowerUpType, "extraLife">, now: number): boolean {
+    if (type === "shield") {
+      if (this.shieldCharges > 0) return false;
+      this.shieldCharges = 1;
+      return true;
+    }
+
+    const duration = powerUpDefinitions[type].duration;
+    const current = Math.max(now, this.expiresAt.get(type) ?? 0);
+    this.expiresAt.set(type, Math.min(current + duration, now + duration * 2));
+    if (type === "spread") {
+      this.spreadLevel = Math.min(this.maxSpreadLevel, this.spreadLevel + 1);
+    }
+    return true;
+  }
+
+  isActive(type: TimedPowerUp, now: number): boolean {
+    return (this.expiresAt.get(type) ?? 0) > now;
+  }
+
+  // Remaining fraction of the base duration, for the HUD (can exceed 1 when stacked)
+  getRemaining(type: TimedPowerUp, now: number): number {
+    return Math.max(0, (this.expiresAt.get(type) ?? 0) - now) / powerUpDefinitions[type].duration;
+  }
+
+  // Angles for one volley, in degrees from straight up
+  getSpreadAngles(now: number): number[] {
+    if (!this.isActive("spread", now)) return [0];
+    return this.spreadLevel >= 2 ? [-20, -10, 0, 10, 20] : [-12, 0, 12];
+  }
+
+  consumeShield(): boolean {
+    if (this.shieldCharges === 0) return false;
+    this.shieldCharges--;
+    return true;
+  }
+
+  update(now: number) {
+    if (!this.isActive("spread", now)) this.spreadLevel = 0;
+  }
+
+  reset() {
+    this.expiresAt.clear();
+    this.spreadLevel = 0;
+    this.shieldCharges = 0;
+  }
+}
+
+type EnemyTarget = { x: number; y: number };
+
+// Names wave scripts may use in a group's "enemy" field
+const enemyTypes = ["basic", "strafer", "chaser", "tank", "kamikaze"] as const;
+
+type EnemyType = (typeof enemyTypes)[number];
+
+const noBullets: readonly BulletSpec[] = [];
+
+// Shared plumbing for every archetype: hit points, hit flash, shooting,
+// interpolation. Subclasses only decide how they move.
+abstract class Enemy {
+  public abstract readonly type: EnemyType;
+  public id: number = 0; // Unique per spawn, not per object
+  private static nextId: number = 1;
+  public x: number = 0;
+  public y: number = 0;
   public width: number = 40;
   public height: number = 40;
-  private speed: number;
+  protected hitboxInset: number = 4; // Hitbox is the sprite minus this margin on every side
+  public readonly scoreValue: number = 10;
+  public readonly dropChance: number = 0.08; // Odds of leaving a power-up behind
+  protected maxHealth: number = 1;
+  protected health: number = 0;
+  protected speed: number = 0;
+  protected color: string = "red";
+  protected isDashing: boolean = false;
+  protected shootCooldown: number = 2000; // 2 seconds cooldown between shots
+  protected shotChancePerSecond: number = 3; // Same odds as the old 5% roll per 60Hz frame
+  protected emitter: BulletEmitter | null = new BulletEmitter({ kind: "spread", count: 1, arc: 0, speed: 200 });
+  private lastShotTime: number = -Infinity;
+  private hitFlashDuration: number = 100;
+  private hitFlashUntil: number = 0;
+  private animator: SpriteAnimator | null;
+  protected rng!: Random; // Set by spawn()
+  protected time: number = 0; // Simulation clock in milliseconds
+  private prevX: number = 0;
+  private prevY: number = 0;
+
+  // An animator with "move" and "dash" clips replaces the plain box
+  constructor(animator: SpriteAnimator | null = null) {
+    this.animator = animator;
+  }
+
+  // Enemies are pooled and recycled, so everything that changes during a
+  // life is reset here. Subclasses extend this for their own state.
+  spawn(x: number, y: number, speed: number, rng: Random) {
+    this.id = Enemy.nextId++;
+    this.x = x;
+    this.y = y;
+    this.prevX = x;
+    this.prevY = y;
+    this.speed = speed;
+    this.rng = rng;
+    this.health = this.maxHealth;
+    this.isDashing = false;
+    this.time = 0;
+    this.lastShotTime = -Infinity;
+    this.hitFlashUntil = 0;
+    this.emitter?.reset();
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+    const x = lerp(this.prevX, this.x, alpha);
+    const y = lerp(this.prevY, this.y, alpha);
+    const flashing = this.time < this.hitFlashUntil;
+
+    if (this.animator?.isLoaded && !flashing) {
+      this.animator.draw(ctx, x, y, this.width, this.height);
+    } else {
+      ctx.fillStyle = flashing ? "white" : this.isDashing ? "orange" : this.color;
+      ctx.fillRect(x, y, this.width, this.height);
+    }
+
+    if (this.maxHealth > 1) {
+      // One pip per remaining hit point
+      const pipWidth = this.width / this.maxHealth;
+      ctx.fillStyle = "lime";
+      for (let i = 0; i < this.health; i++) {
+        ctx.fillRect(x + i * pipWidth + 1, y - 6, pipWidth - 2, 3);
+      }
+    }
+  }
+
+  // Returns the bullets fired this step, if any
+  update(deltaTime: number, canvasWidth: number, canvasHeight: number, target: EnemyTarget): readonly BulletSpec[] {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.time += deltaTime * 1000;
+
+    this.move(deltaTime, canvasWidth, canvasHeight, target);
+
+    if (this.animator) {
+      this.animator.play(this.isDashing ? "dash" : "move");
+      this.animator.update(deltaTime);
+    }
+
+    // Random shooting
+    if (
+      this.emitter &&
+      this.shotChancePerSecond > 0 &&
+      this.time - this.lastShotTime > this.shootCooldown &&
+      this.rng.chance(this.shotChancePerSecond * deltaTime)
+    ) {
+      this.lastShotTime = this.time;
+      return this.emitter.fire(this.x + this.width / 2, this.y + this.height, target);
+    }
+
+    return noBullets;
+  }
+
+  protected abstract move(deltaTime: number, canvasWidth: number, canvasHeight: number, target: EnemyTarget): void;
+
+  getHitbox(): Aabb {
+    return {
+      x: this.x + this.hitboxInset,
+      y: this.y + this.hitboxInset,
+      width: this.width - this.hitboxInset * 2,
+      height: this.height - this.hitboxInset * 2,
+    };
+  }
+
+  get isDestroyed(): boolean {
+    return this.health <= 0;
+  }
+
+  // Returns true when this hit destroyed the enemy
+  takeDamage(amount: number): boolean {
+    this.health -= amount;
+    this.hitFlashUntil = this.time + this.hitFlashDuration;
+    return this.health <= 0;
+  }
+
+  isOffScreen(canvasHeight: number): boolean {
+    return this.y > canvasHeight;
+  }
+}
+
+// The original enemy: falls straight down and now and then dashes sideways
+class BasicEnemy extends Enemy {
+  public readonly type = "basic";
   private dashSpeed: number = 300; // Increased for more noticeable dash
   private dashCooldown: number = 3000; // 3 seconds cooldown between dashes
-  private lastDashTime: number = 0;
-  private isDashing: boolean = false;
+  private dashChancePerSecond: number = 1.2; // Same odds as the old 2% roll per 60Hz frame
+  private lastDashTime: number = -Infinity; // Eligible to dash straight away
   private dashDuration: number = 300; // 300ms dash duration
   private dashStartTime: number = 0;
   private dashDirection: "up" | "down" | "left" | "right" | null = null;
   private dashStartPosition: { x: number, y: number } = { x: 0, y: 0 };
   private dashTargetPosition: { x: number, y: number } = { x: 0, y: 0 };
-  private shootCooldown: number = 2000; // 2 seconds cooldown between shots
-  private lastShotTime: number = 0;
-
-  constructor(x: number, y: number, speed: number) {
-    this.x = x;
-    this.y = y;
-    this.speed = speed;
-  }
 
-  draw(ctx: CanvasRenderingContext2D) {
-    ctx.fillStyle = this.isDashing ? "orange" : "red";
-    ctx.fillRect(this.x, this.y, this.width, this.height);
+  spawn(x: number, y: number, speed: number, rng: Random) {
+    super.spawn(x, y, speed, rng);
+    this.lastDashTime = -Infinity;
+    this.dashDirection = null;
   }
 
-  update(deltaTime: number, canvasWidth: number, canvasHeight: number): EnemyProjectile | null {
-    const currentTime = Date.now();
+  protected move(deltaTime: number, canvasWidth: number, canvasHeight: number) {
+    const currentTime = this.time;
 
     if (this.isDashing) {
       const dashProgress = (currentTime - this.dashStartTime) / this.dashDuration;
@@ -275,26 +625,18 @@ class Enemy {
       this.y += this.speed * deltaTime;
 
       // Random dash
-      if (currentTime - this.lastDashTime > this.dashCooldown && Math.random() < 0.02) { // 2% chance to dash every frame
+      if (currentTime - this.lastDashTime > this.dashCooldown && this.rng.chance(this.dashChancePerSecond * deltaTime)) {
         this.startDash(canvasWidth, canvasHeight);
       }
     }
-
-    // Random shooting
-    if (currentTime - this.lastShotTime > this.shootCooldown && Math.random() < 0.05) { // 5% chance to shoot every frame
-      this.lastShotTime = currentTime;
-      return new EnemyProjectile(this.x + this.width / 2, this.y + this.height);
-    }
-
-    return null;
   }
 
   startDash(canvasWidth: number, canvasHeight: number) {
-    const directions = ["up", "down", "left", "right"];
-    this.dashDirection = directions[Math.floor(Math.random() * directions.length)] as "up" | "down" | "left" | "right";
+    const directions = ["up", "down", "left", "right"] as const;
+    this.dashDirection = this.rng.pick(directions);
 
     this.isDashing = true;
-    this.lastDashTime = Date.now();
+    this.lastDashTime = this.time;
     this.dashStartTime = this.lastDashTime;
     this.dashStartPosition = { x: this.x, y: this.y };
 
@@ -313,266 +655,1659 @@ class Enemy {
         break;
     }
   }
+}
 
-  isOffScreen(canvasHeight: number): boolean {
-    return this.y > canvasHeight;
+// Weaves left and right along a sine wave while descending
+class Strafer extends Enemy {
+  public readonly type = "strafer";
+  public readonly scoreValue: number = 15;
+  protected color: string = "magenta";
+  protected emitter = new BulletEmitter({ kind: "spread", count: 3, arc: 40, speed: 180, color: "violet" });
+  private amplitude: number = 60; // Pixels either side of the spawn column
+  private frequency: number = 0.5; // Full swings per second
+  private originX: number = 0;
+  private phase: number = 0;
+
+  spawn(x: number, y: number, speed: number, rng: Random) {
+    super.spawn(x, y, speed, rng);
+    this.originX = x;
+    this.phase = rng.next() * Math.PI * 2;
   }
-}
 
-// Add this new class
-class Logger {
-  private logs: string[] = [];
-  private maxLogs: number = 5;
-  private ctx: CanvasRenderingContext2D;
+  protected move(deltaTime: number, canvasWidth: number) {
+    this.y += this.speed * deltaTime;
+    const offset = Math.sin(this.phase + (this.time / 1000) * this.frequency * Math.PI * 2) * this.amplitude;
+    this.x = Math.min(canvasWidth - this.width, Math.max(0, this.originX + offset));
+  }
+}
 
-  constructor(ctx: CanvasRenderingContext2D) {
-    this.ctx = ctx;
+// Steers toward the player, then gives up and drops off screen
+class Chaser extends Enemy {
+  public readonly type = "chaser";
+  public readonly scoreValue: number = 20;
+  protected color: string = "lime";
+  protected shotChancePerSecond: number = 1;
+  protected emitter = new BulletEmitter({ kind: "aimed", speed: 240, color: "greenyellow" });
+  private turnRate: number = 2; // How quickly velocity bends toward the target, per second
+  private chaseDuration: number = 8000;
+  private vx: number = 0;
+  private vy: number = 0;
+
+  spawn(x: number, y: number, speed: number, rng: Random) {
+    super.spawn(x, y, speed, rng);
+    this.vx = 0;
+    this.vy = speed;
   }
 
-  log(message: string) {
-    this.logs.unshift(message);
-    if (this.logs.length > this.maxLogs) {
-      this.logs.pop();
+  protected move(deltaTime: number, canvasWidth: number, canvasHeight: number, target: EnemyTarget) {
+    let desiredX = 0;
+    let desiredY = this.speed;
+    if (this.time < this.chaseDuration) {
+      const dx = target.x - (this.x + this.width / 2);
+      const dy = target.y - (this.y + this.height / 2);
+      const distance = Math.hypot(dx, dy) || 1;
+      desiredX = (dx / distance) * this.speed;
+      desiredY = (dy / distance) * this.speed;
     }
-  }
 
-  draw() {
-    this.ctx.fillStyle = 'white';
-    this.ctx.font = '14px Arial';
-    this.logs.forEach((log, index) => {
-      this.ctx.fillText(log, 10, 20 + index * 20);
-    });
+    const steer = Math.min(1, this.turnRate * deltaTime);
+    this.vx += (desiredX - this.vx) * steer;
+    this.vy += (desiredY - this.vy) * steer;
+    this.x = Math.min(canvasWidth - this.width, Math.max(0, this.x + this.vx * deltaTime));
+    this.y += this.vy * deltaTime;
   }
 }
 
-class EnemyProjectile {
-  private x: number;
-  private y: number;
-  private speed: number = 200;
-  private radius: number = 5;
-
-  constructor(x: number, y: number) {
-    this.x = x;
-    this.y = y;
+// Slow, large and takes several hits
+class Tank extends Enemy {
+  public readonly type = "tank";
+  public readonly scoreValue: number = 40;
+  public readonly dropChance: number = 0.5;
+  public width: number = 56;
+  public height: number = 56;
+  protected hitboxInset: number = 2; // Armour plating goes right to the edge
+  protected color: string = "steelblue";
+  protected shootCooldown: number = 1500;
+  // Alternates a slow ring that lurches forward with a rotating spiral
+  protected emitter = new BulletEmitter([
+    { kind: "ring", count: 10, speed: 40, delay: 300, acceleration: 220, maxSpeed: 260, color: "skyblue" },
+    { kind: "spiral", arms: 4, step: 25, speed: 150, color: "skyblue" },
+  ]);
+
+  protected maxHealth: number = 4;
+
+  spawn(x: number, y: number, speed: number, rng: Random) {
+    super.spawn(x, y, speed * 0.5, rng);
   }
 
-  update(deltaTime: number) {
-    this.y += this.speed * deltaTime; // This will make the projectile move downwards
+  protected move(deltaTime: number) {
+    this.y += this.speed * deltaTime;
   }
+}
 
-  draw(ctx: CanvasRenderingContext2D) {
-    ctx.beginPath();
-    ctx.arc(this.x, this.y, this.radius, 0, Math.PI * 2);
-    ctx.fillStyle = "purple";
-    ctx.fill();
-    ctx.closePath();
+// Drifts in, hangs for a moment to lock on, then dives at the player
+class Kamikaze extends Enemy {
+  public readonly type = "kamikaze";
+  public readonly scoreValue: number = 25;
+  public width: number = 32;
+  public height: number = 32;
+  protected color: string = "gold";
+  protected emitter = null; // Its attack is the dive itself
+  private state: "descend" | "aim" | "dive" = "descend";
+  private stateTime: number = 0;
+  private aimDuration: number = 500;
+  private diveSpeed: number = 450;
+  private diveX: number = 0;
+  private diveY: number = 1;
+
+  spawn(x: number, y: number, speed: number, rng: Random) {
+    super.spawn(x, y, speed, rng);
+    this.state = "descend";
+    this.stateTime = 0;
+    this.diveX = 0;
+    this.diveY = 1;
   }
 
-  isOffScreen(canvasHeight: number): boolean {
-    return this.y - this.radius > canvasHeight;
+  protected move(deltaTime: number, canvasWidth: number, canvasHeight: number, target: EnemyTarget) {
+    switch (this.state) {
+      case "descend":
+        this.y += this.speed * deltaTime;
+        if (this.y > canvasHeight * 0.2) {
+          this.state = "aim";
+          this.stateTime = this.time;
+        }
+        break;
+      case "aim":
+        this.isDashing = Math.floor(this.time / 80) % 2 === 0; // Flicker as a warning
+        if (this.time - this.stateTime > this.aimDuration) {
+          const dx = target.x - (this.x + this.width / 2);
+          const dy = target.y - (this.y + this.height / 2);
+          const distance = Math.hypot(dx, dy) || 1;
+          this.diveX = dx / distance;
+          this.diveY = Math.max(0.2, dy / distance); // Always heads down, so it leaves through the bottom
+          this.state = "dive";
+          this.isDashing = true;
+        }
+        break;
+      case "dive":
+        this.x += this.diveX * this.diveSpeed * deltaTime;
+        this.y += this.diveY * this.diveSpeed * deltaTime;
+        break;
+    }
   }
+}
 
-  collidesWith(player: Player): boolean {
-    const playerPos = player.getPosition();
-    return (
-      this.x + this.radius > playerPos.x &&
-      this.x - this.radius < playerPos.x + playerPos.width &&
-      this.y + this.radius > playerPos.y &&
-      this.y - this.radius < playerPos.y + playerPos.height
-    );
-  }
+const enemyFactories: { [type in EnemyType]: () => Enemy } = {
+  basic: () => new BasicEnemy(),
+  strafer: () => new Strafer(),
+  chaser: () => new Chaser(),
+  tank: () => new Tank(),
+  kamikaze: () => new Kamikaze(),
+};
+
+type BossState = "warning" | "entering" | "fighting" | "dying";
+type BossHit = "weakPoint" | "armor";
+
+interface WeakPoint {
+  x: number; // Centre, relative to the boss's top left corner
+  y: number;
+  radius: number;
 }
 
-class Game {
-  private canvas: Canvas;
-  private rain: Rain;
-  private player: Player;
-  private lastTime: number = 0;
-  private running: boolean = false;
-  private keys: { [key: string]: boolean } = {};
-  private projectiles: Projectile[] = [];
-  private enemies: Enemy[] = [];
-  private score: number = 0;
-  private enemySpawnTimer: number = 0;
-  private enemySpawnInterval: number = 1000; // Spawn enemies every 1 second (decreased from 2 seconds)
-  private maxEnemiesPerSpawn: number = 3; // Maximum number of enemies to spawn at once
-  private lastKeyPressTime: { [key: string]: number } = {};
-  private lastKeyReleaseTime: { [key: string]: number } = {};
-  private doublePressThreshold: number = 300; // 300ms threshold for double press
-  private logger: Logger;
-  private enemyProjectiles: EnemyProjectile[] = [];
-  private gameTime: number = 0;
-  private difficultyScalingInterval: number = 30000; // Increase difficulty every 30 seconds
+interface BossPhase {
+  name: string;
+  endsAt: number; // Health fraction at which the next phase takes over
+  movement: "sweep" | "hover" | "track";
+  speed: number; // Top speed toward wherever the movement wants to be, pixels per second
+  fireInterval: number; // Milliseconds between volleys
+  patterns: BulletPattern[];
+  weakPoints: WeakPoint[]; // The only places shots do damage; they hang below the armour so they can be reached
+  color: string;
+}
 
-  constructor(width: number = 800, height: number = 600) {
-    this.canvas = new Canvas(width, height);
-    this.rain = new Rain(this.canvas.ctx, this.canvas.element);
-    this.player = new Player();
-    this.logger = new Logger(this.canvas.ctx);
-    this.initializeGame(width, height);
-    this.setupEventListeners();
-    // Remove this line: this.spawnEnemies();
-  }
+// Wing cannons first, then the exposed core, then both at once
+const bossPhases: BossPhase[] = [
+  {
+    name: "Broadside",
+    endsAt: 0.65,
+    movement: "sweep",
+    speed: 120,
+    fireInterval: 900,
+    patterns: [
+      { kind: "spread", count: 5, arc: 60, speed: 180, color: "tomato" },
+      { kind: "aimed", count: 3, arc: 20, speed: 240, color: "tomato" },
+    ],
+    weakPoints: [
+      { x: 22, y: 62, radius: 12 },
+      { x: 138, y: 62, radius: 12 },
+    ],
+    color: "slategray",
+  },
+  {
+    name: "Spiral",
+    endsAt: 0.3,
+    movement: "hover",
+    speed: 60,
+    fireInterval: 140,
+    patterns: [{ kind: "spiral", arms: 4, step: 14, speed: 140, color: "orchid" }],
+    weakPoints: [{ x: 80, y: 72, radius: 14 }],
+    color: "darkslateblue",
+  },
+  {
+    name: "Frenzy",
+    endsAt: 0,
+    movement: "track",
+    speed: 200,
+    fireInterval: 700,
+    patterns: [
+      { kind: "aimed", count: 5, arc: 40, speed: 260, color: "orangered" },
+      { kind: "ring", count: 16, speed: 60, delay: 400, acceleration: 250, maxSpeed: 300, color: "orangered" },
+    ],
+    weakPoints: [
+      { x: 80, y: 72, radius: 12 },
+      { x: 22, y: 62, radius: 10 },
+      { x: 138, y: 62, radius: 10 },
+    ],
+    color: "darkred",
+  },
+];
+
+// A large enemy fought at difficulty milestones. It announces itself, flies
+// in while its armour is shut, then works through bossPhases as its health
+// drops. Lives outside the enemy pools and spatial hash since there's only
+// ever one.
+class Boss {
+  private static nextId: number = -1; // Negative so pierce bookkeeping never confuses it with an enemy
+  public readonly id: number = Boss.nextId--;
+  public readonly name: string;
+  public state: BossState = "warning";
+  public x: number;
+  public y: number;
+  public readonly width: number = 160;
+  public readonly height: number = 80;
+  private prevX: number;
+  private prevY: number;
+  private hoverY: number = 110; // Clear of the HUD and the health bar
+  private maxHitPoints: number;
+  private hitPoints: number;
+  private phaseIndex: number = 0;
+  private emitters: BulletEmitter[] = bossPhases.map((phase) => new BulletEmitter(phase.patterns));
+  private warningDuration: number = 2500;
+  private entrySpeed: number = 90;
+  private dyingDuration: number = 2000;
+  private time: number = 0; // Simulation clock in milliseconds
+  private stateTime: number = 0; // When the current state began
+  private lastShotTime: number = 0;
+  private hitFlashUntil: number = 0;
 
-  private initializeGame(width: number, height: number) {
-    // Set canvas size
-    this.canvas.element.width = width;
-    this.canvas.element.height = height;
+  constructor(encounter: number, canvasWidth: number) {
+    this.name = `Dreadnought Mk ${encounter}`;
+    this.maxHitPoints = 50 + (encounter - 1) * 25;
+    this.hitPoints = this.maxHitPoints;
+    this.x = (canvasWidth - this.width) / 2;
+    this.y = -this.height;
+    this.prevX = this.x;
+    this.prevY = this.y;
+  }
 
-    this.canvas.clear();
-    this.player.draw(this.canvas.ctx);
-    this.setupEventListeners();
+  get phase(): BossPhase {
+    return bossPhases[this.phaseIndex];
+  }
 
-    // Append canvas to the document body
-    document.body.appendChild(this.canvas.element);
+  get phaseNumber(): number {
+    return this.phaseIndex + 1;
   }
 
-  private setupEventListeners() {
-    this.canvas.element.addEventListener(
-      "click",
-      this.handleCanvasClick.bind(this)
-    );
-    window.addEventListener("keydown", this.handleKeyDown.bind(this));
-    window.addEventListener("keyup", this.handleKeyUp.bind(this));
+  get health(): number {
+    return this.hitPoints;
   }
 
-  private handleCanvasClick(event: MouseEvent) {
-    console.log(event);
-    alert("Canvas clicked");
+  get maxHealth(): number {
+    return this.maxHitPoints;
   }
 
-  private handleKeyDown(event: KeyboardEvent) {
-    const key = event.key;
+  // True once the death throes are over and the boss can be removed
+  get isFinished(): boolean {
+    return this.state === "dying" && this.time - this.stateTime >= this.dyingDuration;
+  }
 
-    if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(key)) {
-      if (!this.keys[key]) {  // Only trigger if the key wasn't already pressed
-        this.keys[key] = true;
-        this.detectDoublePress(key);
-        this.logger.log(`Key pressed: ${key}`);
-      }
+  // Returns the bullets fired this step, if any
+  update(deltaTime: number, canvasWidth: number, target: EnemyTarget): readonly BulletSpec[] {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.time += deltaTime * 1000;
+
+    switch (this.state) {
+      case "warning":
+        if (this.time - this.stateTime >= this.warningDuration) this.setState("entering");
+        return noBullets;
+      case "entering":
+        this.y = Math.min(this.hoverY, this.y + this.entrySpeed * deltaTime);
+        if (this.y === this.hoverY) {
+          this.setState("fighting");
+          this.lastShotTime = this.time;
+        }
+        return noBullets;
+      case "dying":
+        return noBullets;
+      case "fighting":
+        break;
     }
 
-    if (event.code === "Space") {
-      this.shootProjectile();
-      this.logger.log("Projectile shot");
-    }
+    this.move(deltaTime, canvasWidth, target);
+    if (this.time - this.lastShotTime < this.phase.fireInterval) return noBullets;
+    this.lastShotTime = this.time;
+    return this.emitters[this.phaseIndex].fire(this.x + this.width / 2, this.y + this.height, target);
   }
 
-  private handleKeyUp(event: KeyboardEvent) {
-    const key = event.key;
-
-    if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(key)) {
-      this.keys[key] = false;
-      this.lastKeyReleaseTime[key] = Date.now();
+  // Which part of the boss a shot touches; nothing while it's off screen or exploding
+  hitTest(shape: Shape): BossHit | null {
+    const armor = this.getArmor();
+    if (armor.length === 0) return null;
+    if (this.getWeakPoints().some((point) => shapesOverlap(shape, point))) {
+      return this.state === "fighting" ? "weakPoint" : "armor"; // Shut tight while flying in
     }
+    return armor.some((part) => shapesOverlap(shape, box(part))) ? "armor" : null;
   }
 
-  private removeEventListeners() {
-    this.canvas.element.removeEventListener(
-      "click",
-      this.handleCanvasClick.bind(this)
-    );
-    window.removeEventListener("keydown", this.handleKeyDown.bind(this));
-    window.removeEventListener("keyup", this.handleKeyUp.bind(this));
-  }
-
-  start() {
-    if (!this.running) {
-      this.running = true;
-      this.lastTime = performance.now();
-      this.gameLoop(this.lastTime);
+  // Returns true when this hit destroyed the boss. The phase may change as a
+  // result; compare phaseNumber before and after to notice.
+  takeDamage(amount: number): boolean {
+    if (this.state !== "fighting") return false;
+    this.hitPoints = Math.max(0, this.hitPoints - amount);
+    this.hitFlashUntil = this.time + 80;
+    while (this.phaseIndex < bossPhases.length - 1 && this.hitPoints / this.maxHitPoints <= this.phase.endsAt) {
+      this.phaseIndex++;
+      this.lastShotTime = this.time; // A moment's grace before the new pattern opens up
     }
+    if (this.hitPoints > 0) return false;
+    this.setState("dying");
+    return true;
   }
 
-  stop() {
-    this.running = false;
+  // Wings and hull, matching draw(); empty while it can't be touched
+  getArmor(): Aabb[] {
+    if (this.state === "warning" || this.state === "dying") return [];
+    return [
+      { x: this.x, y: this.y + 30, width: this.width, height: 32 },
+      { x: this.x + 40, y: this.y, width: this.width - 80, height: 72 },
+    ];
   }
 
-  private gameLoop(currentTime: number) {
-    if (!this.running) return;
+  getWeakPoints(): Circle[] {
+    return this.phase.weakPoints.map((point) => circle(this.x + point.x, this.y + point.y, point.radius));
+  }
 
-    const deltaTime = (currentTime - this.lastTime) / 1000;
-    this.lastTime = currentTime;
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+    if (this.state === "warning") return;
+    let x = lerp(this.prevX, this.x, alpha);
+    let y = lerp(this.prevY, this.y, alpha);
+    const dying = this.state === "dying";
+    if (dying) {
+      // Shakes harder as it comes apart
+      const shake = ((this.time - this.stateTime) / this.dyingDuration) * 6;
+      x += Math.sin(this.time * 0.9) * shake;
+      y += Math.cos(this.time * 1.3) * shake;
+    }
 
-    this.update(deltaTime);
-    this.draw();
+    ctx.save();
+    if (dying) ctx.globalAlpha = Math.floor(this.time / 60) % 2 === 0 ? 1 : 0.6;
+    ctx.fillStyle = this.time < this.hitFlashUntil ? "white" : this.phase.color;
+    ctx.fillRect(x, y + 30, this.width, 32); // Wings
+    ctx.fillRect(x + 40, y, this.width - 80, 72); // Hull
+    ctx.fillStyle = "gray";
+    ctx.fillRect(x + 74, y + 72, 12, this.height - 72); // Main gun
+
+    const pulse = 0.6 + 0.4 * Math.sin(this.time / 120);
+    this.phase.weakPoints.forEach((point) => {
+      ctx.beginPath();
+      ctx.arc(x + point.x, y + point.y, point.radius, 0, Math.PI * 2);
+      ctx.fillStyle = this.state === "fighting" ? `rgba(255, 80, 40, ${pulse})` : "dimgray";
+      ctx.fill();
+    });
+    ctx.restore();
+  }
 
-    requestAnimationFrame(this.gameLoop.bind(this));
+  private setState(state: BossState) {
+    this.state = state;
+    this.stateTime = this.time;
   }
 
-  private update(deltaTime: number) {
-    const currentTime = performance.now();
-    
-    // Handle continuous movement
-    if (this.keys["ArrowUp"]) {
-      this.player.move("up", this.canvas.element.width, this.canvas.element.height);
-    }
-    if (this.keys["ArrowDown"]) {
-      this.player.move("down", this.canvas.element.width, this.canvas.element.height);
-    }
-    if (this.keys["ArrowLeft"]) {
-      this.player.move("left", this.canvas.element.width, this.canvas.element.height);
+  // Heads for a goal that depends on the phase, never faster than the
+  // phase's speed, so switching phases doesn't make it jump
+  private move(deltaTime: number, canvasWidth: number, target: EnemyTarget) {
+    const seconds = this.time / 1000;
+    const center = (canvasWidth - this.width) / 2;
+    const range = center - 10;
+    let goalX: number;
+    let goalY: number;
+    switch (this.phase.movement) {
+      case "sweep":
+        goalX = center + Math.sin(seconds * 0.8) * range;
+        goalY = this.hoverY;
+        break;
+      case "hover":
+        goalX = center + Math.sin(seconds * 0.5) * range * 0.4;
+        goalY = this.hoverY + 40 + Math.sin(seconds * 1.3) * 30;
+        break;
+      case "track":
+        goalX = Math.min(canvasWidth - this.width, Math.max(0, target.x - this.width / 2));
+        goalY = this.hoverY + Math.sin(seconds * 2) * 20;
+        break;
     }
-    if (this.keys["ArrowRight"]) {
-      this.player.move("right", this.canvas.element.width, this.canvas.element.height);
+
+    const dx = goalX - this.x;
+    const dy = goalY - this.y;
+    const distance = Math.hypot(dx, dy);
+    const step = this.phase.speed * deltaTime;
+    if (distance <= step) {
+      this.x = goalX;
+      this.y = goalY;
+    } else {
+      this.x += (dx / distance) * step;
+      this.y += (dy / distance) * step;
     }
+  }
+}
 
-    // Update player
-    this.player.update(deltaTime, this.canvas.element.width, this.canvas.element.height);
+interface HudStats {
+  score: number;
+  level: number;
+  gameTime: number; // Milliseconds
+  lives: number;
+  dashReadiness: number; // 0..1
+  powerUps: { label: string; color: string; remaining: number }[]; // remaining is 0..1
+  boss: { name: string; health: number; phaseEnds: number[] } | null; // health and phaseEnds are 0..1
+}
 
-    this.rain.update(deltaTime);
-    this.updateProjectiles();
-    this.updateEnemies(deltaTime);
-    this.checkCollisions();
-    this.checkPlayerEnemyCollision();
-    this.spawnEnemies(deltaTime);
-    this.updateEnemyProjectiles(deltaTime);
-    this.checkPlayerEnemyProjectileCollision();
+class Hud {
+  public readonly height: number = 44;
+  private renderer: Renderer;
 
-    this.gameTime += deltaTime * 1000;
-    this.updateDifficulty();
+  constructor(renderer: Renderer) {
+    this.renderer = renderer;
   }
 
-  private updateProjectiles() {
-    this.projectiles.forEach((projectile) => projectile.update());
-    this.projectiles = this.projectiles.filter(
-      (projectile) => !projectile.isOffScreen()
-    );
+  draw(stats: HudStats) {
+    const { ctx, width } = this.renderer;
+
+    ctx.save();
+    // Opaque strip so changing numbers don't smear under fadeBackground
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, width, this.height);
+
+    ctx.font = "14px Arial";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "white";
+    ctx.textAlign = "left";
+    ctx.fillText(`Score: ${stats.score}`, 10, 14);
+    ctx.fillText(`Level ${stats.level + 1}`, 10, 32);
+
+    ctx.textAlign = "right";
+    ctx.fillText(formatTime(stats.gameTime), width - 10, 14);
+    ctx.fillStyle = "red";
+    ctx.fillText("♥".repeat(Math.max(0, stats.lives)), width - 10, 32);
+
+    // Dash cooldown bar in the middle
+    const barWidth = 80;
+    const barX = (width - barWidth) / 2;
+    ctx.textAlign = "center";
+    ctx.fillStyle = "white";
+    ctx.fillText("DASH", width / 2, 14);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.2)";
+    ctx.fillRect(barX, 28, barWidth, 6);
+    ctx.fillStyle = stats.dashReadiness >= 1 ? "cyan" : "gray";
+    ctx.fillRect(barX, 28, barWidth * stats.dashReadiness, 6);
+
+    // Active power-ups hang below the strip, each with a draining timer
+    stats.powerUps.forEach((powerUp, index) => {
+      const x = 10 + index * 34;
+      const y = this.height + 6;
+      ctx.fillStyle = powerUp.color;
+      ctx.fillRect(x, y, 28, 16);
+      ctx.fillStyle = "black";
+      ctx.fillText(powerUp.label, x + 14, y + 8);
+      ctx.fillStyle = powerUp.color;
+      ctx.fillRect(x, y + 18, 28 * powerUp.remaining, 3);
+    });
+
+    // Boss health under the power-ups, notched where each phase ends
+    if (stats.boss) {
+      const x = 10;
+      const y = this.height + 30;
+      const barWidth = width - 20;
+      ctx.fillStyle = "rgba(255, 255, 255, 0.2)";
+      ctx.fillRect(x, y, barWidth, 8);
+      ctx.fillStyle = "crimson";
+      ctx.fillRect(x, y, barWidth * stats.boss.health, 8);
+      ctx.fillStyle = "white";
+      stats.boss.phaseEnds.forEach((end) => ctx.fillRect(x + barWidth * end - 1, y, 2, 8));
+      ctx.textAlign = "left";
+      ctx.fillText(stats.boss.name, x, y + 18);
+    }
+    ctx.restore();
+  }
+}
+
+// Short notices for the player (waves, levels, pickups, sound toggles),
+// newest on top, fading out after a few seconds. Developer output goes to
+// the Log instead, which production builds keep silent.
+class MessageFeed {
+  private messages: { text: string; time: number }[] = [];
+  private maxMessages: number = 5;
+  private lifetime: number = 4000; // Milliseconds, the last 1000 spent fading
+  private renderer: Renderer;
+  private top: number;
+
+  constructor(renderer: Renderer, top: number) {
+    this.renderer = renderer;
+    this.top = top;
+  }
+
+  // Wall-clock timestamps, so notices fade even while the game is paused
+  push(text: string, now: number = performance.now()) {
+    this.messages.unshift({ text, time: now });
+    if (this.messages.length > this.maxMessages) this.messages.pop();
+  }
+
+  draw(now: number = performance.now()) {
+    const ctx = this.renderer.ctx;
+    this.messages = this.messages.filter((message) => now - message.time < this.lifetime);
+    ctx.save();
+    ctx.font = "14px Arial";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    this.messages.forEach((message, index) => {
+      ctx.globalAlpha = Math.min(1, (this.lifetime - (now - message.time)) / 1000);
+      ctx.fillStyle = "white";
+      ctx.fillText(message.text, 10, this.top + index * 20);
+    });
+    ctx.restore();
+  }
+}
+
+class EnemyProjectile {
+  private x: number = 0;
+  private y: number = 0;
+  private prevX: number = 0;
+  private prevY: number = 0;
+  private dirX: number = 0;
+  private dirY: number = 1;
+  private speed: number = 0;
+  private maxSpeed: number = 0;
+  private acceleration: number = 0;
+  private delay: number = 0; // Milliseconds left before it starts moving
+  private color: string = "purple";
+  private radius: number = 5;
+
+  // Pooled like Projectile: init() makes a recycled bullet good as new
+  init(spec: BulletSpec) {
+    this.x = spec.x;
+    this.y = spec.y;
+    this.prevX = spec.x;
+    this.prevY = spec.y;
+    this.dirX = spec.dirX;
+    this.dirY = spec.dirY;
+    this.speed = spec.speed;
+    this.maxSpeed = spec.maxSpeed;
+    this.acceleration = spec.acceleration;
+    this.delay = spec.delay;
+    this.color = spec.color;
+  }
+
+  update(deltaTime: number, wind: number = 0) {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    if (this.delay > 0) {
+      this.delay -= deltaTime * 1000;
+      return;
+    }
+    this.speed = Math.min(this.maxSpeed, this.speed + this.acceleration * deltaTime);
+    this.x += (this.dirX * this.speed + wind) * deltaTime;
+    this.y += this.dirY * this.speed * deltaTime;
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+    ctx.beginPath();
+    ctx.arc(lerp(this.prevX, this.x, alpha), lerp(this.prevY, this.y, alpha), this.radius, 0, Math.PI * 2);
+    ctx.fillStyle = this.color;
+    ctx.fill();
+    ctx.closePath();
+  }
+
+  isOffScreen(canvasWidth: number, canvasHeight: number): boolean {
+    return (
+      this.x + this.radius < 0 ||
+      this.x - this.radius > canvasWidth ||
+      this.y + this.radius < 0 ||
+      this.y - this.radius > canvasHeight
+    );
+  }
+
+  getShape(): Shape {
+    return sweptCircle(this.prevX, this.prevY, this.x, this.y, this.radius);
+  }
+
+  collidesWith(player: Player): boolean {
+    return shapesOverlap(this.getShape(), player.getHurtbox());
+  }
+}
+
+type GameState = "title" | "playing" | "paused" | "gameOver";
+
+// Particle effects; angles are in degrees with 0 pointing right and 90 down
+const effects: { [name: string]: EmitterConfig } = {
+  explosion: {
+    count: 24,
+    speed: [60, 260],
+    life: [300, 600],
+    drag: 2,
+    color: [[255, 240, 180], [255, 60, 0]],
+    size: [4, 1],
+    sizeOverLife: true,
+    blend: "lighter",
+  },
+  debris: {
+    count: 8,
+    speed: [40, 160],
+    life: [400, 800],
+    gravity: 300,
+    color: [140, 140, 140],
+    size: [3, 6],
+    shape: "square",
+  },
+  hitSpark: {
+    count: 6,
+    speed: [80, 200],
+    angle: [-135, -45],
+    life: [100, 250],
+    color: [255, 255, 255],
+    size: 2,
+    blend: "lighter",
+  },
+  muzzleFlash: {
+    count: 5,
+    speed: [40, 140],
+    angle: [-120, -60],
+    life: [60, 140],
+    color: [[255, 255, 200], [255, 180, 0]],
+    size: [4, 1],
+    sizeOverLife: true,
+    blend: "lighter",
+  },
+  dashTrail: {
+    count: 1,
+    speed: 0,
+    life: 250,
+    color: [80, 160, 255],
+    alpha: [0.5, 0],
+    size: 50, // Matches the player sprite
+    shape: "square",
+  },
+};
+
+// Endless mode mix: relative weights, and the difficulty level a type unlocks at
+const endlessEnemyMix: { type: EnemyType; weight: number; minLevel: number }[] = [
+  { type: "basic", weight: 6, minLevel: 0 },
+  { type: "strafer", weight: 3, minLevel: 1 },
+  { type: "kamikaze", weight: 2, minLevel: 2 },
+  { type: "chaser", weight: 2, minLevel: 3 },
+  { type: "tank", weight: 1, minLevel: 4 },
+];
+
+type Difficulty = "easy" | "normal" | "hard";
+
+interface DifficultySettings {
+  lives: number;
+  respawnInvulnerability: number; // Milliseconds of protection after losing a life
+  dashInvulnerability: boolean; // Whether the player can't be hit for the dashDuration
+}
+
+const difficultySettings: { [difficulty in Difficulty]: DifficultySettings } = {
+  easy: { lives: 5, respawnInvulnerability: 3000, dashInvulnerability: true },
+  normal: { lives: 3, respawnInvulnerability: 2000, dashInvulnerability: true },
+  hard: { lives: 3, respawnInvulnerability: 1000, dashInvulnerability: false },
+};
+
+interface GameConfig {
+  difficulty?: Difficulty;
+  lives?: number; // Overrides the difficulty's lives
+  seed?: number; // Fixed seed for reproducible runs; a new one is rolled per run otherwise
+  waves?: unknown; // Wave script data, validated on load; null skips straight to endless mode
+  weather?: unknown; // Weather schedule data, validated on load; null keeps the sky clear and calm
+  bosses?: boolean; // Boss fights at difficulty milestones, on by default
+  highScores?: boolean; // Ask for a name when a run makes the table; on by default with a page canvas
+  renderer?: Renderer; // Draw here instead of a page canvas; a HeadlessRenderer runs without a DOM
+  stress?: number; // Keeps this many enemies alive, auto-fires and shows collision stats; nobody dies
+}
+
+type ShooterAction =
+  | "move-up"
+  | "move-down"
+  | "move-left"
+  | "move-right"
+  | "shoot"
+  | "dash"
+  | "confirm"
+  | "pause"
+  | "mute"
+  | "controls";
+
+type Direction = "up" | "down" | "left" | "right";
+
+const moveDirections: { [action: string]: Direction } = {
+  "move-up": "up",
+  "move-down": "down",
+  "move-left": "left",
+  "move-right": "right",
+};
+
+const defaultBindings: Bindings<ShooterAction> = {
+  "move-up": [
+    { device: "keyboard", code: "ArrowUp" },
+    { device: "gamepad", button: 12 },
+    { device: "gamepad", axis: 1, direction: -1 },
+  ],
+  "move-down": [
+    { device: "keyboard", code: "ArrowDown" },
+    { device: "gamepad", button: 13 },
+    { device: "gamepad", axis: 1, direction: 1 },
+  ],
+  "move-left": [
+    { device: "keyboard", code: "ArrowLeft" },
+    { device: "gamepad", button: 14 },
+    { device: "gamepad", axis: 0, direction: -1 },
+  ],
+  "move-right": [
+    { device: "keyboard", code: "ArrowRight" },
+    { device: "gamepad", button: 15 },
+    { device: "gamepad", axis: 0, direction: 1 },
+  ],
+  shoot: [{ device: "keyboard", code: "Space" }, { device: "gamepad", button: 0 }],
+  dash: [{ device: "keyboard", code: "ShiftLeft" }, { device: "gamepad", button: 1 }],
+  confirm: [{ device: "keyboard", code: "Enter" }, { device: "gamepad", button: 9 }],
+  pause: [
+    { device: "keyboard", code: "Escape" },
+    { device: "keyboard", code: "KeyP" },
+    { device: "gamepad", button: 8 },
+  ],
+  mute: [{ device: "keyboard", code: "KeyM" }],
+  controls: [{ device: "keyboard", code: "KeyC" }],
+};
+
+// Rows of the controls screen, in this order
+const actionLabels: { [action in ShooterAction]: string } = {
+  "move-up": "Move up",
+  "move-down": "Move down",
+  "move-left": "Move left",
+  "move-right": "Move right",
+  shoot: "Shoot",
+  dash: "Dash",
+  confirm: "Confirm",
+  pause: "Pause",
+  mute: "Mute",
+  controls: "Controls",
+};
+
+// Action presses are queued and applied at the start of the next simulation
+// step so a run only depends on the seed and the step each input landed on
+interface InputEvent {
+  type: "down" | "up";
+  action: ShooterAction;
+  direction?: Direction; // Set for swipe dashes, which carry their own direction
+}
+
+function isInputEvent(value: unknown): value is InputEvent {
+  const input = value as InputEvent;
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    (input.type === "down" || input.type === "up") &&
+    input.action in defaultBindings &&
+    (input.direction === undefined || Object.values(moveDirections).includes(input.direction))
+  );
+}
+
+// Settings a replay carries so it plays back under the rules it was recorded with
+interface ReplaySettings {
+  difficulty: Difficulty;
+  lives: number;
+  waves: WaveScript | null; // The validated script, so later edits to the data file don't break old replays
+  weather?: WeatherSchedule | null; // Wind moves projectiles, so it has to replay too; missing in older replays
+  bosses?: boolean; // Missing in replays from before bosses, which never met one
+  width: number;
+  height: number;
+}
+
+type ShooterReplay = Replay<InputEvent, ReplaySettings>;
+
+// Plain copy of the simulation state, for tests and tools
+interface GameSnapshot {
+  state: GameState;
+  tick: number;
+  score: number;
+  lives: number;
+  gameTime: number;
+  level: number;
+  wave: number;
+  player: { x: number; y: number; width: number; height: number };
+  dashReadiness: number;
+  enemies: number;
+  projectiles: number;
+  enemyProjectiles: number;
+  powerUps: number;
+  weather: WeatherPreset;
+  wind: number;
+  boss: { state: BossState; phase: number; health: number; maxHealth: number } | null;
+}
+
+const bossLevelInterval = 3; // A boss every third difficulty level, from level 4
+const bossBonus = 1000; // Times the encounter number
+const bossBreather = 8000; // Milliseconds without new enemies once a boss is down
+const windDrift = 0.5; // Share of the wind's speed that pushes projectiles sideways
+const replaySeekStep = 300; // Steps skipped per left/right press, 5 seconds at 60 Hz
+const replaySpeeds = [1, 2, 4];
+
+class Game {
+  private renderer: Renderer;
+  private canvas: Canvas | null; // Null when running headless
+  private weather: Weather;
+  private weatherSchedule: WeatherSchedule | null;
+  private particles: ParticleSystem;
+  private player: Player;
+  private lastTime: number = 0;
+  private running: boolean = false;
+  private keys: { [key: string]: boolean } = {};
+  // Entities live in swap-remove lists and are recycled through pools, so
+  // steady play allocates nothing per shot or spawn
+  private projectiles: EntityList<Projectile> = new EntityList();
+  private projectilePool: ObjectPool<Projectile> = new ObjectPool(() => new Projectile(), 500);
+  private enemies: EntityList<Enemy> = new EntityList();
+  private enemyPools: { [type in EnemyType]: ObjectPool<Enemy> };
+  private enemyHashCellSize: number = 64;
+  private enemyHash: SpatialHash<Enemy> = new SpatialHash(this.enemyHashCellSize); // Rebuilt every step
+  private collisionStats: CollisionStats = new CollisionStats();
+  private stressEnemies: number;
+  private score: number = 0;
+  private enemySpawnTimer: number = 0;
+  private enemySpawnInterval: number = 1000; // Spawn enemies every 1 second (decreased from 2 seconds)
+  private maxEnemiesPerSpawn: number = 3; // Maximum number of enemies to spawn at once
+  private lastKeyPressTime: { [key: string]: number } = {};
+  private lastKeyReleaseTime: { [key: string]: number } = {};
+  private doublePressThreshold: number = 300; // 300ms threshold for double press
+  private overlay: DevOverlay = new DevOverlay();
+  private enemyProjectiles: EntityList<EnemyProjectile> = new EntityList();
+  private enemyProjectilePool: ObjectPool<EnemyProjectile> = new ObjectPool(() => new EnemyProjectile(), 3000);
+  private powerUps: PowerUp[] = [];
+  private upgrades: PlayerUpgrades = new PlayerUpgrades();
+  private fireInterval: number = 250; // Milliseconds between shots while Space is held
+  private rapidFireInterval: number = 100;
+  private nextShotTime: number = 0;
+  private shieldInvulnerability: number = 1000; // Grace period after the shield pops
+  private gameTime: number = 0;
+  private difficultyScalingInterval: number = 30000; // Increase difficulty every 30 seconds
+  private audio: AudioManager;
+  private state: GameState = "title";
+  private startingLives: number;
+  private lives: number;
+  private timeSurvived: number = 0;
+  private difficulty: DifficultySettings;
+  private configSeed: number | undefined;
+  private seed: number;
+  private rng: Random;
+  private timestep: FixedTimestep = new FixedTimestep(60);
+  private alpha: number = 1; // Interpolation factor between the last two simulation steps
+  private pendingInputs: InputEvent[] = [];
+  private tick: number = 0; // Simulation steps since the run started
+  private recorder: ReplayRecorder<InputEvent, ReplaySettings> | null = null; // Null in stress mode
+  private replay: ReplayPlayer<InputEvent, ReplaySettings> | null = null; // Set while watching a replay
+  private replaySpeed: number = 1;
+  private replayPaused: boolean = false;
+  private ownSettings: ReplaySettings | null = null; // Restored when playback ends
+  private input: InputManager<ShooterAction>;
+  private controls: ControlsScreen<ShooterAction>;
+  private touchControls: TouchControls | null;
+  private hud: Hud;
+  private messages: MessageFeed;
+  private difficultyLevel: number = 0;
+  private animationFrameId: number | null = null;
+  private listening: boolean = false; // Input attached; false while the scene is left
+  private destroyed: boolean = false;
+  private difficultyName: Difficulty;
+  private highScores: HighScoreStorage = new HighScoreStorage();
+  private nameEntry: NameEntry;
+  private lastRank: number | null = null; // Table position of the run just saved
+  private nameEntryInterrupted: boolean = false; // Left the scene mid-entry; reopened on return
+  private waveScript: WaveScript | null;
+  private waveDirector: WaveDirector | null = null;
+  private waveNumber: number = 0;
+  private bossesEnabled: boolean;
+  private highScoresEnabled: boolean;
+  private boss: Boss | null = null;
+  private bossEncounter: number = 0; // Bosses met this run
+  private nextBossLevel: number = bossLevelInterval;
+  private breatherUntil: number = 0; // Game time regular spawning resumes after a boss
+  private bossDefeat: { time: number; bonus: number } | null = null; // For the banner
+
+  constructor(width: number = 800, height: number = 600, config: GameConfig = {}) {
+    this.difficultyName = config.difficulty ?? "normal";
+    this.difficulty = difficultySettings[this.difficultyName];
+    this.nameEntry = new NameEntry(this.saveHighScore.bind(this));
+    this.startingLives = config.lives ?? this.difficulty.lives;
+    this.lives = this.startingLives;
+    this.configSeed = config.seed;
+    this.seed = config.seed ?? Random.randomSeed();
+    this.rng = new Random(this.seed);
+    if (config.renderer) {
+      this.canvas = null;
+      this.renderer = config.renderer;
+    } else {
+      this.canvas = new Canvas(width, height);
+      this.renderer = this.canvas;
+    }
+    this.weather = new Weather(this.renderer, this.rng.fork());
+    this.particles = new ParticleSystem(1500, this.rng.fork());
+    this.stressEnemies = config.stress ?? 0;
+    const enemyCapacity = Math.max(100, this.stressEnemies);
+    this.enemyPools = {
+      basic: new ObjectPool(enemyFactories.basic, enemyCapacity),
+      strafer: new ObjectPool(enemyFactories.strafer, enemyCapacity),
+      chaser: new ObjectPool(enemyFactories.chaser, enemyCapacity),
+      tank: new ObjectPool(enemyFactories.tank, enemyCapacity),
+      kamikaze: new ObjectPool(enemyFactories.kamikaze, enemyCapacity),
+    };
+    this.projectilePool.prewarm(100);
+    this.enemyProjectilePool.prewarm(300);
+    this.player = new Player();
+    this.player.setDashInvulnerable(this.difficulty.dashInvulnerability);
+    this.hud = new Hud(this.renderer);
+    this.messages = new MessageFeed(this.renderer, this.hud.height + 76); // Below power-ups and the boss bar
+    this.waveScript = this.loadWaves(config.waves === undefined ? defaultWaves : config.waves);
+    this.weatherSchedule = this.loadWeather(config.weather === undefined ? defaultWeather : config.weather);
+    this.bossesEnabled = config.bosses ?? true;
+    this.highScoresEnabled = config.highScores ?? this.canvas !== null;
+    this.input = new InputManager(defaultBindings, "dash-shooter-bindings");
+    this.controls = new ControlsScreen(this.input, actionLabels);
+    this.touchControls = this.canvas && new TouchControls(this.canvas, {
+      move: (direction, pressed) => this.handleAction(`move-${direction}`, pressed),
+      fire: (pressed) => this.handleAction("shoot", pressed),
+      swipe: (direction) => {
+        if (this.state === "playing" && !this.replay) {
+          this.pendingInputs.push({ type: "down", action: "dash", direction });
+        }
+      },
+      tap: () => this.handleAction("confirm", true),
+    });
+    this.audio = new AudioManager();
+    // Only shoot.wav ships with the game, so every effect is a pitched variant of it
+    this.audio.register({
+      shoot: { url: shootSoundUrl, volume: 0.4, pitchVariation: 0.05, volumeVariation: 0.05, maxVoices: 4 },
+      enemyHit: { url: shootSoundUrl, volume: 0.5, pitch: 1.6, pitchVariation: 0.1, maxVoices: 4 },
+      enemyDamaged: { url: shootSoundUrl, volume: 0.3, pitch: 2.2, pitchVariation: 0.1, maxVoices: 4 },
+      playerHit: { url: shootSoundUrl, volume: 0.8, pitch: 0.5, maxVoices: 1 },
+      dash: { url: shootSoundUrl, volume: 0.3, pitch: 2, pitchVariation: 0.1, maxVoices: 2 },
+      powerUp: { url: shootSoundUrl, volume: 0.5, pitch: 2.5, maxVoices: 2 },
+      shieldBreak: { url: shootSoundUrl, volume: 0.6, pitch: 0.8, maxVoices: 1 },
+      thunder: { url: shootSoundUrl, volume: 0.7, pitch: 0.25, pitchVariation: 0.1, maxVoices: 1 },
+      bossWarning: { url: shootSoundUrl, volume: 0.8, pitch: 0.4, maxVoices: 1 },
+      bossArmor: { url: shootSoundUrl, volume: 0.2, pitch: 3, pitchVariation: 0.1, maxVoices: 2 },
+      bossDefeated: { url: shootSoundUrl, volume: 1, pitch: 0.3, maxVoices: 1 },
+    });
+    this.weather.onStrike = () => this.audio.play("thunder");
+    this.initializeGame(width, height);
+    this.input.onAction(this.handleAction.bind(this));
+    this.overlay.onChange = () => {
+      if (!this.running) this.draw(); // Paused or stopped: show the change anyway
+    };
+    if (this.canvas) {
+      // Resizing clears the canvas, and the loop isn't there to repaint it while paused
+      this.canvas.onResize = () => {
+        if (!this.running) this.draw();
+      };
+      this.audio.preload();
+      this.setupEventListeners();
+    }
+    // Remove this line: this.spawnEnemies();
+  }
+
+  private initializeGame(width: number, height: number) {
+    this.renderer.clear();
+    this.player.reset(width, height);
+
+    // Append canvas to the document body
+    if (this.canvas) document.body.appendChild(this.canvas.element);
+  }
+
+  private setupEventListeners() {
+    this.touchControls?.attach();
+    this.input.attach();
+    this.overlay.attach();
+    this.listening = true;
+  }
+
+  private handleAction(action: ShooterAction, pressed: boolean) {
+    this.audio.unlock();
+
+    if (this.replay) {
+      if (pressed) this.handleReplayAction(action);
+      return;
+    }
+
+    if (!pressed) {
+      if (this.state === "playing") {
+        this.pendingInputs.push({ type: "up", action });
+      }
+      return;
+    }
+
+    switch (action) {
+      case "mute": {
+        const muted = this.audio.toggleMute();
+        this.messages.push(muted ? "Sound muted" : "Sound unmuted");
+        return;
+      }
+      case "confirm":
+        if (this.nameEntry.isActive) {
+          this.nameEntry.submit(); // Touch players confirm the prefilled name with a tap
+        } else if (this.state === "title" || this.state === "gameOver") {
+          this.startRun();
+        }
+        return;
+      case "pause":
+        this.togglePause();
+        return;
+      case "controls":
+        if (this.state === "title") this.controls.open();
+        return;
+    }
+
+    if (this.state !== "playing") return;
+    this.pendingInputs.push({ type: "down", action });
+  }
+
+  // While watching, the game's own actions drive playback instead
+  private handleReplayAction(action: ShooterAction) {
+    switch (action) {
+      case "mute": {
+        const muted = this.audio.toggleMute();
+        this.messages.push(muted ? "Sound muted" : "Sound unmuted");
+        break;
+      }
+      case "pause":
+      case "shoot":
+        this.toggleReplayPause();
+        break;
+      case "move-left":
+        this.seekReplay(this.tick - replaySeekStep);
+        break;
+      case "move-right":
+        this.seekReplay(this.tick + replaySeekStep);
+        break;
+      case "dash": {
+        const next = (replaySpeeds.indexOf(this.replaySpeed) + 1) % replaySpeeds.length;
+        this.setReplaySpeed(replaySpeeds[next]);
+        break;
+      }
+      case "confirm":
+        this.exitReplay();
+        break;
+    }
+  }
+
+  // Also the entry point for headless runs, which have no Enter key to press
+  startRun() {
+    this.resetGame();
+    this.state = "playing";
+    this.recorder = this.stressEnemies > 0 ? null : new ReplayRecorder("shooter", this.seed, this.getSettings());
+  }
+
+  // Runs one simulation step with the given inputs, as if they had arrived
+  // during the frame before it. Lets tests drive the game without a loop.
+  step(inputs: InputEvent[] = []) {
+    if (this.state !== "playing") return;
+    this.pendingInputs.push(...inputs);
+    this.update(this.timestep.step);
+  }
+
+  getSnapshot(): GameSnapshot {
+    return {
+      state: this.state,
+      tick: this.tick,
+      score: this.score,
+      lives: this.lives,
+      gameTime: this.gameTime,
+      level: this.difficultyLevel,
+      wave: this.waveNumber,
+      player: this.player.getPosition(),
+      dashReadiness: this.player.getDashReadiness(),
+      enemies: this.enemies.length,
+      projectiles: this.projectiles.length,
+      enemyProjectiles: this.enemyProjectiles.length,
+      powerUps: this.powerUps.length,
+      weather: this.weather.currentPreset,
+      wind: this.weather.wind,
+      boss: this.boss && {
+        state: this.boss.state,
+        phase: this.boss.phaseNumber,
+        health: this.boss.health,
+        maxHealth: this.boss.maxHealth,
+      },
+    };
+  }
+
+  private getSettings(): ReplaySettings {
+    return {
+      difficulty: this.difficultyName,
+      lives: this.startingLives,
+      waves: this.waveScript,
+      weather: this.weatherSchedule,
+      bosses: this.bossesEnabled,
+      width: this.renderer.width,
+      height: this.renderer.height,
+    };
+  }
+
+  private applySettings(settings: ReplaySettings) {
+    this.difficultyName = settings.difficulty;
+    this.difficulty = difficultySettings[settings.difficulty];
+    this.startingLives = settings.lives;
+    this.waveScript = settings.waves;
+    this.weatherSchedule = settings.weather ?? null;
+    this.bossesEnabled = settings.bosses ?? false;
+    this.player.setDashInvulnerable(this.difficulty.dashInvulnerability);
+  }
+
+  // Inputs for this step come from the replay when watching one, otherwise
+  // from the queue, and are recorded as they are applied
+  private processInputs() {
+    const inputs = this.replay ? this.replay.takeInputs(this.tick) : this.pendingInputs;
+    this.recorder?.record(this.tick, inputs);
+    for (const input of inputs) {
+      const { action } = input;
+      if (input.type === "up") {
+        this.keys[action] = false;
+        this.lastKeyReleaseTime[action] = this.gameTime;
+      } else if (action === "shoot") {
+        // Fire on the press itself so a tap shorter than one step still shoots
+        this.keys[action] = true;
+        this.tryShoot();
+      } else if (action === "dash") {
+        this.dashPlayer(input.direction ?? this.getHeldDirection() ?? "up");
+      } else if (!this.keys[action]) {  // Only trigger if the action wasn't already held
+        this.keys[action] = true;
+        this.detectDoublePress(action);
+        log.debug(`Action pressed: ${action}`);
+      }
+    }
+    this.pendingInputs = [];
+  }
+
+  private getHeldDirection(): Direction | null {
+    const held = Object.keys(moveDirections).find((action) => this.keys[action]);
+    return held ? moveDirections[held] : null;
+  }
+
+  private removeEventListeners() {
+    this.touchControls?.detach();
+    this.input.detach();
+    this.overlay.detach();
+    this.listening = false;
+  }
+
+  // Scene hooks: the constructor already listens, so only a re-entry attaches
+  enter() {
+    if (!this.listening && this.canvas) {
+      this.canvas.attach();
+      this.setupEventListeners();
+    }
+    if (this.nameEntryInterrupted) {
+      this.nameEntryInterrupted = false;
+      this.nameEntry.open(this.nameEntry.value); // Pick up where the player left off
+    }
+    this.start();
+  }
+
+  // Leaving mid-run pauses it, so coming back shows the pause screen
+  exit() {
+    if (this.state === "playing" && !this.replay) {
+      this.togglePause();
+    }
+    // Nothing is saved until the player confirms; closing also stops its key
+    // capture following us out
+    this.nameEntryInterrupted = this.nameEntry.isActive;
+    this.nameEntry.close();
+    this.controls.close();
+    this.stop();
+    this.removeEventListeners();
+    this.canvas?.detach();
+  }
+
+  start() {
+    if (!this.running && !this.destroyed) {
+      this.running = true;
+      this.lastTime = performance.now();
+      this.gameLoop(this.lastTime);
+    }
+  }
+
+  stop() {
+    this.running = false;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  // Unmounts the game for good: the loop, every listener, the AudioContext
+  // and the sprite sheet all go. The instance can't be started again.
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.stop();
+    this.removeEventListeners();
+    this.nameEntry.close();
+    this.controls.close();
+    this.canvas?.detach();
+    this.audio.destroy();
+    this.player.destroy();
+    this.projectiles.clear();
+    this.enemies.clear();
+    this.enemyProjectiles.clear();
+    this.particles.clear();
+  }
+
+  // Pausing stops the loop outright; start() re-reads the clock on resume so
+  // the paused time never reaches the simulation as one huge frame
+  private togglePause() {
+    if (this.state === "playing") {
+      this.state = "paused";
+      // Held keys are released through the queue rather than cleared, so
+      // the release lands in the recording on the first step after resuming.
+      // Inputs already queued this frame stay ahead of them.
+      const releases: InputEvent[] = Object.keys(this.keys)
+        .filter((action) => this.keys[action])
+        .map((action) => ({ type: "up", action: action as ShooterAction }));
+      this.pendingInputs.push(...releases);
+      this.draw();
+      this.stop();
+      this.watchForResume();
+    } else if (this.state === "paused") {
+      this.state = "playing";
+      this.start();
+    }
+  }
+
+  // Keyboard events still arrive while stopped, but gamepads need polling
+  private watchForResume() {
+    if (this.running || this.state !== "paused" || !this.listening) return;
+    this.input.poll();
+    requestAnimationFrame(this.watchForResume.bind(this));
+  }
+
+  // Puts everything back to how a fresh page load would have it
+  private resetGame(seed: number = this.configSeed ?? Random.randomSeed()) {
+    this.seed = seed;
+    this.rng = new Random(this.seed);
+    this.weather.reset(this.rng.fork(), this.weatherSchedule ? presetAt(this.weatherSchedule, 0) : "clear");
+    this.particles.clear();
+    this.particles.setRandom(this.rng.fork());
+    this.timestep.reset();
+    this.alpha = 1;
+    this.pendingInputs = [];
+    this.tick = 0;
+    this.nameEntry.close();
+    this.lastRank = null;
+    this.score = 0;
+    this.gameTime = 0;
+    this.timeSurvived = 0;
+    this.lives = this.startingLives;
+    this.projectiles.clear((projectile) => this.projectilePool.release(projectile));
+    this.enemies.clear((enemy) => this.enemyPools[enemy.type].release(enemy));
+    this.enemyProjectiles.clear((projectile) => this.enemyProjectilePool.release(projectile));
+    this.powerUps = [];
+    this.upgrades.reset();
+    this.nextShotTime = 0;
+    this.waveDirector = this.waveScript
+      ? new WaveDirector(this.waveScript, this.rng, this.renderer.width)
+      : null;
+    this.waveNumber = 0;
+    this.boss = null;
+    this.bossEncounter = 0;
+    this.nextBossLevel = bossLevelInterval;
+    this.breatherUntil = 0;
+    this.bossDefeat = null;
+    this.enemySpawnTimer = 0;
+    this.enemySpawnInterval = 1000;
+    this.maxEnemiesPerSpawn = 3;
+    this.difficultyLevel = 0;
+    this.keys = {};
+    this.lastKeyPressTime = {};
+    this.lastKeyReleaseTime = {};
+    this.player.reset(this.renderer.width, this.renderer.height);
+    this.renderer.clear();
+  }
+
+  // The run in progress or just finished, or the replay being watched
+  exportReplay(): string | null {
+    const replay = this.replay?.replay ?? this.recorder?.getReplay();
+    return replay ? serializeReplay(replay) : null;
+  }
+
+  // Throws a ReplayError when the file can't be played back on this game
+  playReplay(json: string) {
+    const replay: ShooterReplay = parseReplay(json, "shooter", isInputEvent);
+    const settings = this.checkReplaySettings(replay.config);
+    this.ownSettings ??= this.getSettings();
+    this.applySettings(settings);
+    this.recorder = null;
+    this.replay = new ReplayPlayer(replay);
+    this.replaySpeed = 1;
+    this.replayPaused = false;
+    this.restartReplay(this.replay);
+    this.start(); // The loop is stopped if the game was paused
+  }
+
+  exitReplay() {
+    if (!this.replay) return;
+    this.replay = null;
+    if (this.ownSettings) {
+      this.applySettings(this.ownSettings);
+      this.ownSettings = null;
+    }
+    this.resetGame();
+    this.state = "title";
+  }
+
+  toggleReplayPause() {
+    if (!this.replay) return;
+    if (this.state === "gameOver" || this.replay.isFinished(this.tick)) {
+      this.restartReplay(this.replay); // Watch again from the top
+      this.replayPaused = false;
+    } else {
+      this.replayPaused = !this.replayPaused;
+    }
+  }
+
+  setReplaySpeed(speed: number) {
+    this.replaySpeed = speed;
+  }
+
+  // Seeking re-simulates from the seed: backwards restarts the run, and both
+  // directions fast-forward silently to the target step
+  seekReplay(tick: number) {
+    const replay = this.replay;
+    if (!replay) return;
+    const target = Math.max(0, Math.min(replay.ticks, Math.round(tick)));
+    if (target < this.tick) {
+      this.restartReplay(replay);
+    }
+
+    const wasMuted = this.audio.isMuted();
+    this.audio.setMuted(true);
+    while (this.tick < target && this.state === "playing") {
+      this.update(this.timestep.step);
+    }
+    this.audio.setMuted(wasMuted);
+    this.alpha = 1;
+  }
+
+  getReplayProgress(): { tick: number; ticks: number; speed: number; paused: boolean } | null {
+    if (!this.replay) return null;
+    return { tick: this.tick, ticks: this.replay.ticks, speed: this.replaySpeed, paused: this.replayPaused };
+  }
+
+  private restartReplay(replay: ReplayPlayer<InputEvent, ReplaySettings>) {
+    this.resetGame(replay.replay.seed);
+    replay.rewind();
+    this.state = "playing";
+  }
+
+  private advanceReplay(replay: ReplayPlayer<InputEvent, ReplaySettings>, frameTime: number) {
+    if (this.replayPaused) return;
+    this.alpha = this.timestep.advance(frameTime * this.replaySpeed, (step) => {
+      if (this.state === "playing" && !replay.isFinished(this.tick)) this.update(step);
+    });
+    // Recordings exported mid-run stop short of a game over
+    if (replay.isFinished(this.tick)) this.replayPaused = true;
+  }
+
+  private checkReplaySettings(settings: ReplaySettings): ReplaySettings {
+    const { width, height } = this.renderer;
+    if (!(settings.difficulty in difficultySettings)) {
+      throw new ReplayError(`unknown difficulty ${JSON.stringify(settings.difficulty)}`);
+    }
+    if (!Number.isInteger(settings.lives) || settings.lives < 1) {
+      throw new ReplayError("lives must be a positive integer");
+    }
+    if (settings.bosses !== undefined && typeof settings.bosses !== "boolean") {
+      throw new ReplayError("bosses must be true or false");
+    }
+    if (settings.width !== width || settings.height !== height) {
+      throw new ReplayError(`recorded at ${settings.width}x${settings.height}, this game is ${width}x${height}`);
+    }
+    let waves: WaveScript | null = null;
+    if (settings.waves !== null) {
+      try {
+        waves = loadWaveScript(settings.waves, enemyTypes);
+      } catch (e) {
+        throw new ReplayError((e as Error).message);
+      }
+    }
+    let weather: WeatherSchedule | null = null;
+    if (settings.weather) {
+      try {
+        weather = loadWeatherSchedule(settings.weather);
+      } catch (e) {
+        throw new ReplayError((e as Error).message);
+      }
+    }
+    return { ...settings, waves, weather };
+  }
+
+  // Same seed and inputs should land on the same score; anything else means
+  // something in the simulation read state that isn't in the replay
+  private checkReplaySummary() {
+    const expected = this.replay?.replay.summary?.score;
+    if (expected !== undefined && expected !== this.score) {
+      log.warn(`Replay desynced: scored ${this.score}, recorded ${expected}`);
+    }
+  }
+
+  private gameLoop(currentTime: number) {
+    if (!this.running) return;
+
+    if (this.controls.isOpen) {
+      this.controls.poll(); // Gamepad presses go to the screen, not the game
+    } else {
+      this.input.poll();
+    }
+    const frameTime = (currentTime - this.lastTime) / 1000;
+    this.lastTime = currentTime;
+    this.overlay.recordFrame(frameTime * 1000);
+
+    if (this.state === "playing" && this.replay) {
+      this.advanceReplay(this.replay, frameTime);
+    } else if (this.state === "playing") {
+      this.alpha = this.timestep.advance(frameTime, (step) => this.update(step));
+    } else if (this.state === "title") {
+      this.alpha = this.timestep.advance(frameTime, (step) => this.weather.update(step));
+    }
+    this.draw();
+
+    this.animationFrameId = requestAnimationFrame(this.gameLoop.bind(this));
+  }
+
+  // One fixed simulation step; deltaTime is always the timestep's step size
+  private update(deltaTime: number) {
+    this.player.beginStep();
+    this.processInputs();
+
+    // Handle continuous movement
+    if (this.keys["move-up"]) {
+      this.player.move("up", deltaTime, this.renderer.width, this.renderer.height);
+    }
+    if (this.keys["move-down"]) {
+      this.player.move("down", deltaTime, this.renderer.width, this.renderer.height);
+    }
+    if (this.keys["move-left"]) {
+      this.player.move("left", deltaTime, this.renderer.width, this.renderer.height);
+    }
+    if (this.keys["move-right"]) {
+      this.player.move("right", deltaTime, this.renderer.width, this.renderer.height);
+    }
+
+    if (this.keys["shoot"] || this.stressEnemies > 0) {
+      this.tryShoot();
+    }
+    this.upgrades.update(this.gameTime);
+    this.player.setDashCooldownScale(this.upgrades.isActive("dashBoost", this.gameTime) ? 0.5 : 1);
+
+    // Update player
+    this.player.update(deltaTime, this.renderer.width, this.renderer.height);
+
+    if (this.weatherSchedule) {
+      this.weather.followSchedule(this.weatherSchedule, this.gameTime);
+    }
+    this.weather.update(deltaTime);
+    this.particles.update(deltaTime);
+    this.updateProjectiles(deltaTime);
+    this.updateEnemies(deltaTime);
+    this.updateBoss(deltaTime);
+    this.collisionStats.begin();
+    this.rebuildEnemyHash();
+    this.checkCollisions();
+    this.checkPlayerEnemyCollision();
+    this.collisionStats.end();
+    if (this.stressEnemies > 0) {
+      this.fillStressEnemies();
+    } else if (!this.boss && this.gameTime >= this.breatherUntil) {
+      this.updateSpawning(deltaTime); // Held while a boss is on screen and for a breather after
+    }
+    this.updateEnemyProjectiles(deltaTime);
+    this.checkPlayerEnemyProjectileCollision();
+    this.updatePowerUps(deltaTime);
+
+    this.gameTime += deltaTime * 1000;
+    this.updateDifficulty();
+    this.tick++;
+  }
+
+  private updateProjectiles(deltaTime: number) {
+    this.projectiles.forEach((projectile) => projectile.update(deltaTime, this.weather.wind * windDrift));
+    this.projectiles.removeWhere(
+      (projectile) => projectile.isOffScreen(this.renderer.width),
+      (projectile) => this.projectilePool.release(projectile)
+    );
+  }
+
+  private updatePowerUps(deltaTime: number) {
+    this.powerUps.forEach((powerUp) => powerUp.update(deltaTime));
+    this.powerUps = this.powerUps.filter((powerUp) => {
+      // Pickups test the whole sprite, not the hurtbox, so they're easy to grab
+      if (this.checkCollision(this.player.getPosition(), powerUp)) {
+        this.collectPowerUp(powerUp.type);
+        return false;
+      }
+      return !powerUp.isOffScreen(this.renderer.height);
+    });
+  }
+
+  private collectPowerUp(type: PowerUpType) {
+    let applied: boolean;
+    if (type === "extraLife") {
+      applied = this.lives < this.startingLives + 2;
+      if (applied) this.lives++;
+    } else {
+      applied = this.upgrades.apply(type, this.gameTime);
+    }
+
+    if (applied) {
+      this.messages.push(`Power-up: ${type}`);
+    } else {
+      this.score += 50; // Maxed out, so it's worth points instead
+    }
+    this.audio.play("powerUp");
   }
 
   private updateEnemies(deltaTime: number) {
+    const target = this.player.getCenterPosition();
     this.enemies.forEach((enemy) => {
-      const projectile = enemy.update(deltaTime, this.canvas.element.width, this.canvas.element.height);
-      if (projectile) {
-        this.enemyProjectiles.push(projectile);
-      }
+      const bullets = enemy.update(deltaTime, this.renderer.width, this.renderer.height, target);
+      bullets.forEach((spec) => this.fireEnemyProjectile(spec));
     });
-    this.enemies = this.enemies.filter(
-      (enemy) => !enemy.isOffScreen(this.canvas.element.height)
+    this.enemies.removeWhere(
+      (enemy) => enemy.isOffScreen(this.renderer.height),
+      (enemy) => this.enemyPools[enemy.type].release(enemy)
     );
   }
 
+  private updateBoss(deltaTime: number) {
+    const boss = this.boss;
+    if (!boss) return;
+    const bullets = boss.update(deltaTime, this.renderer.width, this.player.getCenterPosition());
+    bullets.forEach((spec) => this.fireEnemyProjectile(spec));
+
+    if (boss.state === "dying") {
+      // A string of explosions across the hull before it goes
+      if (this.rng.chance(12 * deltaTime)) {
+        this.particles.emit(
+          effects.explosion,
+          boss.x + this.rng.next() * boss.width,
+          boss.y + this.rng.next() * boss.height
+        );
+      }
+      if (boss.isFinished) {
+        this.particles.emit(effects.explosion, boss.x + boss.width / 2, boss.y + boss.height / 2, 80);
+        this.particles.emit(effects.debris, boss.x + boss.width / 2, boss.y + boss.height / 2, 30);
+        this.boss = null;
+      }
+    }
+  }
+
+  private startBossFight() {
+    this.bossEncounter++;
+    this.boss = new Boss(this.bossEncounter, this.renderer.width);
+    this.audio.play("bossWarning");
+    log.debug(`Boss incoming: ${this.boss.name}`);
+  }
+
+  // Bullets past the pool's capacity are dropped rather than allocated
+  private fireEnemyProjectile(spec: BulletSpec) {
+    const projectile = this.enemyProjectilePool.obtain();
+    if (!projectile) return;
+    projectile.init(spec);
+    this.enemyProjectiles.add(projectile);
+  }
+
   private updateEnemyProjectiles(deltaTime: number) {
-    this.enemyProjectiles.forEach((projectile) => projectile.update(deltaTime));
-    this.enemyProjectiles = this.enemyProjectiles.filter(
-      (projectile) => !projectile.isOffScreen(this.canvas.element.height)
+    this.enemyProjectiles.forEach((projectile) => projectile.update(deltaTime, this.weather.wind * windDrift));
+    this.enemyProjectiles.removeWhere(
+      (projectile) => projectile.isOffScreen(this.renderer.width, this.renderer.height),
+      (projectile) => this.enemyProjectilePool.release(projectile)
     );
   }
 
   private checkPlayerEnemyProjectileCollision() {
-    for (const projectile of this.enemyProjectiles) {
+    if (this.player.isInvulnerable()) return;
+
+    for (let i = 0; i < this.enemyProjectiles.length; i++) {
+      const projectile = this.enemyProjectiles.get(i);
       if (projectile.collidesWith(this.player)) {
         this.respawnPlayer();
         // Remove the projectile that hit the player
-        this.enemyProjectiles = this.enemyProjectiles.filter(p => p !== projectile);
+        this.enemyProjectilePool.release(this.enemyProjectiles.removeAt(i));
         break;
       }
     }
   }
 
   private respawnPlayer() {
-    this.player.respawn(this.canvas.element.width, this.canvas.element.height);
-    this.logger.log("Player hit by enemy projectile and respawned!");
+    if (!this.loseLife()) return;
+    this.player.respawn(this.renderer.width, this.renderer.height);
+    this.player.makeInvulnerable(this.difficulty.respawnInvulnerability);
+    log.info("Player hit by enemy projectile and respawned!");
+  }
+
+  // Returns false when the player stays put: either the shield took the hit
+  // or that was the last life and the game is over
+  private loseLife(): boolean {
+    if (this.state !== "playing" || this.stressEnemies > 0) return false;
+
+    if (this.upgrades.consumeShield()) {
+      this.player.makeInvulnerable(this.shieldInvulnerability);
+      this.audio.play("shieldBreak");
+      this.messages.push("Shield absorbed the hit");
+      return false;
+    }
+
+    this.lives--;
+    this.upgrades.reset();
+    this.audio.play("playerHit");
+    if (this.lives <= 0) {
+      this.timeSurvived = this.gameTime;
+      this.state = "gameOver";
+      this.keys = {};
+      this.recorder?.finish({ score: this.score, time: this.timeSurvived });
+      if (this.replay) {
+        this.checkReplaySummary();
+      } else if (this.highScoresEnabled && this.highScores.qualifies("shooter", this.difficultyName, this.score, this.timeSurvived)) {
+        this.nameEntry.open(this.highScores.getLastName());
+      }
+      return false;
+    }
+    return true;
+  }
+
+  private saveHighScore(name: string) {
+    this.lastRank = this.highScores.add({
+      game: "shooter",
+      name,
+      score: this.score,
+      time: this.timeSurvived,
+      seed: this.seed,
+      difficulty: this.difficultyName,
+    });
+    this.messages.push(`High score saved: #${this.lastRank}`);
   }
 
   private spawnEnemies(deltaTime: number) {
@@ -581,7 +2316,7 @@ class Game {
       this.enemySpawnTimer = 0;
       
       // Spawn 1 to maxEnemiesPerSpawn enemies
-      const enemiesToSpawn = Math.floor(Math.random() * this.maxEnemiesPerSpawn) + 1;
+      const enemiesToSpawn = this.rng.int(this.maxEnemiesPerSpawn) + 1;
       
       for (let i = 0; i < enemiesToSpawn; i++) {
         this.spawnEnemy();
@@ -589,129 +2324,696 @@ class Game {
     }
   }
 
-  private spawnEnemy() {
-    const x = Math.random() * (this.canvas.element.width - 40);
-    const y = -40; // Start above the screen
-    const speed = Math.random() * 100 + 50; // Random speed between 50 and 150 pixels per second
-    this.enemies.push(new Enemy(x, y, speed));
-    console.log("Enemy spawned:", this.enemies.length); // Add this line for debugging
+  private fillStressEnemies() {
+    while (this.enemies.length < this.stressEnemies) {
+      const countBefore = this.enemies.length;
+      this.spawnEnemy({
+        enemy: "basic",
+        x: this.rng.next() * (this.renderer.width - 40),
+        y: this.rng.range(-400, -40), // Staggered so they don't arrive as one block
+        speed: this.rng.range(50, 150),
+      });
+      if (this.enemies.length === countBefore) break; // Pool is full
+    }
   }
 
-  private draw() {
-    this.canvas.fadeBackground();
-    this.rain.draw();
-    this.player.draw(this.canvas.ctx);
-    this.projectiles.forEach((projectile) => projectile.draw(this.canvas.ctx));
-    this.enemies.forEach((enemy) => enemy.draw(this.canvas.ctx));
-    this.logger.draw(); // Add this line to draw the logs
-    this.enemyProjectiles.forEach((projectile) => projectile.draw(this.canvas.ctx));
+  private pickEnemyType(): EnemyType {
+    const available = endlessEnemyMix.filter((entry) => this.difficultyLevel >= entry.minLevel);
+    return this.rng.weighted(available).type;
+  }
+
+  private loadWeather(data: unknown): WeatherSchedule | null {
+    if (data === null) return null;
+    try {
+      return loadWeatherSchedule(data);
+    } catch (e) {
+      log.error("Weather schedule invalid, keeping clear skies:", e);
+      return null;
+    }
+  }
+
+  private loadWaves(data: unknown): WaveScript | null {
+    if (data === null) return null;
+    try {
+      return loadWaveScript(data, enemyTypes);
+    } catch (e) {
+      log.error("Wave script invalid, playing endless mode:", e);
+      this.messages.push("Wave script invalid, playing endless mode");
+      return null;
+    }
+  }
+
+  // Scripted waves first; once they run out the endless formula takes over
+  private updateSpawning(deltaTime: number) {
+    if (!this.waveDirector || this.waveDirector.isFinished) {
+      this.spawnEnemies(deltaTime);
+      return;
+    }
+
+    const spawns = this.waveDirector.update(deltaTime, this.enemies.length);
+    spawns.forEach((spawn) => this.spawnEnemy(spawn));
+
+    if (this.waveDirector.waveNumber !== this.waveNumber) {
+      this.waveNumber = this.waveDirector.waveNumber;
+      this.messages.push(`Wave ${this.waveNumber}: ${this.waveDirector.waveName ?? ""}`);
+    }
+    if (this.waveDirector.isFinished) {
+      this.messages.push("Waves cleared, endless mode");
+    }
+  }
+
+  private spawnEnemy(spawn?: SpawnRequest) {
+    const x = spawn?.x ?? this.rng.next() * (this.renderer.width - 40);
+    const y = spawn?.y ?? -40; // Start above the screen
+    const speed = spawn?.speed ?? this.rng.range(50, 150); // Random speed between 50 and 150 pixels per second
+    // Wave scripts are validated against enemyTypes, so the cast is safe
+    const type = (spawn?.enemy as EnemyType | undefined) ?? this.pickEnemyType();
+    const enemy = this.enemyPools[type].obtain();
+    if (!enemy) return;
+    enemy.spawn(x, y, speed, this.rng);
+    this.enemies.add(enemy);
+    log.debug(`Enemy spawned: ${type}, ${this.enemies.length} alive`);
+  }
+
+  // Public so headless runs can render a chosen step to a recording renderer
+  draw() {
+    this.renderer.fadeBackground();
+    this.weather.drawPrecipitation(this.alpha);
+    this.powerUps.forEach((powerUp) => powerUp.draw(this.renderer.ctx, this.alpha));
+    this.player.draw(this.renderer.ctx, this.alpha);
+    if (this.upgrades.shieldCharges > 0) {
+      this.drawShield();
+    }
+    this.projectiles.forEach((projectile) => projectile.draw(this.renderer.ctx, this.alpha));
+    this.enemies.forEach((enemy) => enemy.draw(this.renderer.ctx, this.alpha));
+    this.boss?.draw(this.renderer.ctx, this.alpha);
+    this.particles.draw(this.renderer.ctx, this.alpha);
+    this.enemyProjectiles.forEach((projectile) => projectile.draw(this.renderer.ctx, this.alpha));
+    this.weather.drawAtmosphere();
+    this.touchControls?.draw(this.renderer.ctx);
+    if (this.overlay.visible) {
+      this.drawHitboxes();
+    }
+    if (this.stressEnemies > 0) {
+      this.drawCollisionStats();
+    }
+    if (this.replay) {
+      this.drawReplayBar(this.replay);
+    }
+
+    if (this.state !== "title") {
+      this.hud.draw({
+        score: this.score,
+        level: this.difficultyLevel,
+        gameTime: this.gameTime,
+        lives: this.lives,
+        dashReadiness: this.player.getDashReadiness(),
+        powerUps: timedPowerUps
+          .filter((type) => this.upgrades.isActive(type, this.gameTime))
+          .map((type) => ({
+            label: powerUpDefinitions[type].label,
+            color: powerUpDefinitions[type].color,
+            remaining: Math.min(1, this.upgrades.getRemaining(type, this.gameTime)),
+          })),
+        boss: this.boss && this.boss.state !== "warning"
+          ? {
+              name: `${this.boss.name}: ${this.boss.phase.name}`,
+              health: this.boss.health / this.boss.maxHealth,
+              phaseEnds: bossPhases.slice(0, -1).map((phase) => phase.endsAt),
+            }
+          : null,
+      });
+    }
+    this.messages.draw();
+    if (this.state === "playing") {
+      this.drawBossBanners();
+    }
+
+    switch (this.state) {
+      case "title":
+        if (this.controls.isOpen) {
+          this.controls.draw(this.renderer);
+          break;
+        }
+        this.drawScreen("Dash Shooter", [
+          `Lives: ${this.startingLives}`,
+          "Arrows to move, double-tap or Shift to dash, hold Space to shoot",
+          "Press Enter or tap to start, C to change controls",
+        ]);
+        break;
+      case "paused":
+        this.drawScreen("Paused", ["Press Esc to resume"]);
+        break;
+      case "gameOver":
+        if (this.replay) {
+          this.drawScreen("Replay Finished", [
+            `Final score: ${this.score}`,
+            `Time survived: ${formatTime(this.timeSurvived)}`,
+            "Left to rewind, Space to watch again, Enter to exit",
+          ]);
+          break;
+        }
+        this.drawScreen("Game Over", [
+          `Final score: ${this.score}`,
+          `Time survived: ${formatTime(this.timeSurvived)}`,
+          ...(this.nameEntry.isActive
+            ? [
+                "New high score! Enter your name:",
+                this.nameEntry.getDisplayText(performance.now()),
+                "Press Enter or tap to save",
+              ]
+            : [
+                this.lastRank !== null ? `Saved as #${this.lastRank} on the leaderboard` : "",
+                "Press Enter or tap to play again",
+              ]),
+        ]);
+        break;
+    }
+    if (this.overlay.visible) {
+      this.overlay.draw(this.renderer, {
+        state: this.state,
+        tick: this.tick,
+        enemies: this.enemies.length,
+        projectiles: this.projectiles.length,
+        "enemy projectiles": this.enemyProjectiles.length,
+        particles: this.particles.count,
+        weather: `${this.weather.currentPreset}, wind ${this.weather.wind.toFixed(0)}px/s`,
+        "weather particles": this.weather.particleCount,
+        "power-ups": this.powerUps.length,
+        "hash cells": this.enemyHash.occupiedCells,
+        boss: this.boss
+          ? `${this.boss.state}, phase ${this.boss.phaseNumber}, ${this.boss.health}/${this.boss.maxHealth}`
+          : `next at level ${this.nextBossLevel + 1}`,
+      });
+    }
+  }
+
+  // Broad-phase cells, then every collision shape as the last step tested it
+  private drawHitboxes() {
+    const ctx = this.renderer.ctx;
+    drawGridLines(ctx, this.enemyHashCellSize, this.renderer.width, this.renderer.height);
+    this.enemies.forEach((enemy) => drawShape(ctx, box(enemy.getHitbox()), "orange"));
+    this.projectiles.forEach((projectile) => drawShape(ctx, projectile.getShape(), "yellow"));
+    this.enemyProjectiles.forEach((projectile) => drawShape(ctx, projectile.getShape(), "magenta"));
+    if (this.boss && this.boss.state !== "warning") {
+      this.boss.getArmor().forEach((part) => drawShape(ctx, box(part), "orange"));
+      this.boss.getWeakPoints().forEach((point) => drawShape(ctx, point, "red"));
+    }
+    drawShape(ctx, this.player.getHurtbox(), this.player.isInvulnerable() ? "gray" : "lime");
+  }
+
+  // The flashing warning before a boss arrives and the bonus once it's down
+  private drawBossBanners() {
+    const ctx = this.renderer.ctx;
+    const { width, height } = this.renderer;
+    let lines: { text: string; color: string }[] | null = null;
+    if (this.boss?.state === "warning") {
+      if (Math.floor(this.gameTime / 300) % 2 === 1) return; // Blink
+      lines = [
+        { text: "WARNING", color: "red" },
+        { text: `${this.boss.name} approaching`, color: "white" },
+      ];
+    } else if (this.bossDefeat && this.gameTime - this.bossDefeat.time < 3000) {
+      lines = [
+        { text: "BOSS DEFEATED", color: "gold" },
+        { text: `Bonus +${this.bossDefeat.bonus}`, color: "white" },
+      ];
+    }
+    if (!lines) return;
+
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+    ctx.fillRect(0, height / 2 - 50, width, 90);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = lines[0].color;
+    ctx.font = "bold 36px Arial";
+    ctx.fillText(lines[0].text, width / 2, height / 2 - 18);
+    ctx.fillStyle = lines[1].color;
+    ctx.font = "16px Arial";
+    ctx.fillText(lines[1].text, width / 2, height / 2 + 20);
+    ctx.restore();
+  }
+
+  private drawCollisionStats() {
+    const ctx = this.renderer.ctx;
+    const stats = this.collisionStats;
+    const lines = [
+      `Enemies ${this.enemies.length}, bullets ${this.projectiles.length} + ${this.enemyProjectiles.length}`,
+      `Pairs tested ${stats.candidates} of ${stats.bruteForcePairs} brute force, ${stats.hits} hits`,
+      `Collision ${stats.time.toFixed(2)}ms (avg ${stats.averageTime.toFixed(2)}ms)`,
+    ];
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillRect(0, this.renderer.height - 64, this.renderer.width, 64);
+    ctx.fillStyle = "lime";
+    ctx.font = "12px monospace";
+    ctx.textBaseline = "top";
+    lines.forEach((line, index) => ctx.fillText(line, 8, this.renderer.height - 58 + index * 18));
+    ctx.restore();
+  }
+
+  private drawReplayBar(replay: ReplayPlayer<InputEvent, ReplaySettings>) {
+    const ctx = this.renderer.ctx;
+    const { width, height } = this.renderer;
+    const toMs = (tick: number) => tick * this.timestep.step * 1000;
+    const status = this.replayPaused ? "paused" : `${this.replaySpeed}x`;
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillRect(0, height - 48, width, 48);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
+    ctx.fillRect(8, height - 44, width - 16, 6);
+    ctx.fillStyle = "red";
+    ctx.fillRect(8, height - 44, (width - 16) * Math.min(1, this.tick / Math.max(1, replay.ticks)), 6);
+    ctx.fillStyle = "white";
+    ctx.font = "12px monospace";
+    ctx.textBaseline = "top";
+    ctx.fillText(`REPLAY ${status}  ${formatTime(toMs(this.tick))} / ${formatTime(toMs(replay.ticks))}`, 8, height - 32);
+    ctx.fillText("Space pause, Left/Right seek, Shift speed, Enter exit", 8, height - 16);
+    ctx.restore();
+  }
+
+  private drawShield() {
+    const ctx = this.renderer.ctx;
+    const { x, y, width, height } = this.player.getPosition();
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(x + width / 2, y + height / 2, Math.max(width, height) * 0.7, 0, Math.PI * 2);
+    ctx.strokeStyle = powerUpDefinitions.shield.color;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawScreen(title: string, lines: string[]) {
+    const ctx = this.renderer.ctx;
+    const centerX = this.renderer.width / 2;
+    const centerY = this.renderer.height / 2;
+
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+    ctx.fillRect(0, 0, this.renderer.width, this.renderer.height);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "white";
+    ctx.font = "bold 32px Arial";
+    ctx.fillText(title, centerX, centerY - 40);
+    ctx.font = "14px Arial";
+    lines.forEach((line, index) => {
+      ctx.fillText(line, centerX, centerY + index * 24);
+    });
+    ctx.restore();
+  }
+
+  // Holding shoot fires at most once per interval, however fast it's mashed
+  private tryShoot() {
+    if (this.gameTime < this.nextShotTime) return;
+    const rapid = this.upgrades.isActive("rapid", this.gameTime);
+    this.nextShotTime = this.gameTime + (rapid ? this.rapidFireInterval : this.fireInterval);
+    this.shootProjectile();
   }
 
   private shootProjectile() {
     const playerPosition = this.player.getCenterPosition();
-    const projectile = new Projectile(playerPosition.x, playerPosition.y);
-    this.projectiles.push(projectile);
+    const pierce = this.upgrades.isActive("pierce", this.gameTime) ? 2 : 0;
+    this.upgrades.getSpreadAngles(this.gameTime).forEach((angle) => {
+      const projectile = this.projectilePool.obtain();
+      if (projectile) {
+        projectile.init(playerPosition.x, playerPosition.y, angle, pierce);
+        this.projectiles.add(projectile);
+      }
+    });
+    this.particles.emit(effects.muzzleFlash, playerPosition.x, playerPosition.y);
+    this.audio.play("shoot");
+  }
+
+  private rebuildEnemyHash() {
+    this.enemyHash.clear();
+    this.enemies.forEach((enemy) => this.enemyHash.insert(enemy, enemy.getHitbox()));
   }
 
+  // Enemies destroyed earlier in the step stay in the hash until the next
+  // rebuild, so candidates are checked with isDestroyed
   private checkCollisions() {
-    this.projectiles = this.projectiles.filter((projectile) => {
-      // Check collision with some target (e.g., an enemy)
-      // For this example, let's assume we have an array of enemies
-      const hitEnemy = this.enemies.find((enemy) =>
-        projectile.collidesWith(enemy)
+    this.collisionStats.bruteForcePairs += this.projectiles.length * this.enemies.length;
+    this.projectiles.removeWhere((projectile) => {
+      const boss = this.boss;
+      if (boss && projectile.canHit(boss)) {
+        const hit = boss.hitTest(projectile.getShape());
+        if (hit) {
+          this.collisionStats.hits++;
+          this.handleBossHit(boss, hit, projectile.getShape());
+          return hit === "armor" || projectile.registerHit(boss);
+        }
+      }
+
+      const candidates = this.enemyHash.query(shapeBounds(projectile.getShape()));
+      this.collisionStats.candidates += candidates.length;
+      const hitEnemy = candidates.find((enemy) =>
+        !enemy.isDestroyed && projectile.canHit(enemy) && projectile.collidesWith(enemy.getHitbox())
       );
 
       if (hitEnemy) {
+        this.collisionStats.hits++;
         // Handle the collision (e.g., remove the enemy, increase score)
         this.handleEnemyHit(hitEnemy);
-        return false; // Remove the projectile
+        return projectile.registerHit(hitEnemy); // Piercing rounds carry on
       }
 
-      return true; // Keep the projectile
-    });
+      return false; // Keep the projectile
+    }, (projectile) => this.projectilePool.release(projectile));
   }
 
   private handleEnemyHit(enemy: Enemy) {
+    const centerX = enemy.x + enemy.width / 2;
+    const centerY = enemy.y + enemy.height / 2;
+    if (!enemy.takeDamage(1)) {
+      this.particles.emit(effects.hitSpark, centerX, enemy.y + enemy.height);
+      this.audio.play("enemyDamaged");
+      return;
+    }
+    this.particles.emit(effects.explosion, centerX, centerY);
+    this.particles.emit(effects.debris, centerX, centerY);
     // Remove the enemy from the game
-    this.enemies = this.enemies.filter((e) => e !== enemy);
-    // Increase score or perform other actions
-    this.score += 10;
+    this.enemies.remove(enemy);
+    this.enemyPools[enemy.type].release(enemy);
+    this.score += enemy.scoreValue;
+    this.audio.play("enemyHit");
+
+    if (this.rng.chance(enemy.dropChance)) {
+      this.dropPowerUp(centerX, centerY);
+    }
+  }
+
+  private dropPowerUp(x: number, y: number) {
+    const type = this.rng.weighted(
+      (Object.keys(powerUpDefinitions) as PowerUpType[]).map((type) => ({ type, weight: powerUpDefinitions[type].weight }))
+    ).type;
+    this.powerUps.push(new PowerUp(type, x, y));
+  }
+
+  // Armour shrugs shots off; weak points take the damage
+  private handleBossHit(boss: Boss, hit: BossHit, shot: Shape) {
+    const bounds = shapeBounds(shot);
+    const x = bounds.x + bounds.width / 2;
+    const y = bounds.y;
+    if (hit === "armor") {
+      this.particles.emit(effects.hitSpark, x, y, 2);
+      this.audio.play("bossArmor");
+      return;
+    }
+
+    const phase = boss.phaseNumber;
+    const defeated = boss.takeDamage(1);
+    this.particles.emit(effects.hitSpark, x, y);
+    if (defeated) {
+      this.defeatBoss(boss);
+    } else if (boss.phaseNumber !== phase) {
+      this.particles.emit(effects.explosion, boss.x + boss.width / 2, boss.y + boss.height / 2, 48);
+      this.audio.play("enemyHit");
+      this.messages.push(`${boss.name} phase ${boss.phaseNumber}: ${boss.phase.name}`);
+    } else {
+      this.audio.play("enemyDamaged");
+    }
+  }
+
+  // Pays out, clears the air and gives the player a moment before spawning resumes
+  private defeatBoss(boss: Boss) {
+    const bonus = bossBonus * this.bossEncounter;
+    this.score += bonus;
+    this.bossDefeat = { time: this.gameTime, bonus };
+    this.breatherUntil = this.gameTime + bossBreather;
+    this.enemyProjectiles.clear((projectile) => this.enemyProjectilePool.release(projectile));
+    this.dropPowerUp(boss.x + boss.width / 2, boss.y + boss.height / 2);
+    this.audio.play("bossDefeated");
+    log.debug(`${boss.name} defeated, +${bonus}`);
   }
 
   // Add this new method
   private checkPlayerEnemyCollision() {
-    const playerPos = this.player.getPosition();
-    for (const enemy of this.enemies) {
-      if (this.checkCollision(playerPos, enemy)) {
+    if (this.player.isInvulnerable()) return;
+
+    const hurtbox = this.player.getHurtbox();
+    const candidates = this.enemyHash.query(shapeBounds(hurtbox));
+    this.collisionStats.bruteForcePairs += this.enemies.length;
+    this.collisionStats.candidates += candidates.length;
+    for (const enemy of candidates) {
+      if (!enemy.isDestroyed && shapesOverlap(hurtbox, box(enemy.getHitbox()))) {
+        this.collisionStats.hits++;
         this.handlePlayerEnemyCollision();
-        break; // Exit the loop after the first collision
+        return; // Exit after the first collision
       }
     }
+
+    if (this.boss?.getArmor().some((part) => shapesOverlap(hurtbox, box(part)))) {
+      this.handlePlayerEnemyCollision();
+    }
   }
 
   // Add this new method
-  private checkCollision(
-    rect1: { x: number; y: number; width: number; height: number },
-    rect2: { x: number; y: number; width: number; height: number }
-  ): boolean {
-    return (
-      rect1.x < rect2.x + rect2.width &&
-      rect1.x + rect1.width > rect2.x &&
-      rect1.y < rect2.y + rect2.height &&
-      rect1.y + rect1.height > rect2.y
-    );
+  private checkCollision(rect1: Aabb, rect2: Aabb): boolean {
+    return aabbOverlap(rect1, rect2);
   }
 
   // Add this new method
   private handlePlayerEnemyCollision() {
+    if (!this.loseLife()) return;
+
     // Respawn the player at the center bottom of the canvas
-    this.player.respawn(this.canvas.element.width, this.canvas.element.height);
+    this.player.respawn(this.renderer.width, this.renderer.height);
+    this.player.makeInvulnerable(this.difficulty.respawnInvulnerability);
 
     // You might want to add additional logic here, such as:
-    // - Decreasing player lives
-    // - Playing a sound effect
-    // - Adding a brief invincibility period
     // - Updating the score
-    console.log("Player collided with an enemy and respawned!");
+    log.info("Player collided with an enemy and respawned");
   }
 
-  private detectDoublePress(key: string) {
-    const currentTime = Date.now();
-    const lastPressTime = this.lastKeyPressTime[key] || 0;
-    const lastReleaseTime = this.lastKeyReleaseTime[key] || 0;
+  // Works for any input bound to a move action: keys, d-pad buttons or stick flicks
+  private detectDoublePress(action: ShooterAction) {
+    const currentTime = this.gameTime;
+    const lastPressTime = this.lastKeyPressTime[action] ?? -Infinity;
+    const lastReleaseTime = this.lastKeyReleaseTime[action] ?? -Infinity;
 
-    console.log(`Key: ${key}, Current: ${currentTime}, Last Press: ${lastPressTime}, Last Release: ${lastReleaseTime}`); // Add this line
+    log.debug(`Action: ${action}, Current: ${currentTime}, Last Press: ${lastPressTime}, Last Release: ${lastReleaseTime}`);
 
     if (currentTime - lastPressTime <= this.doublePressThreshold && 
         lastReleaseTime > lastPressTime) {
-      console.log(`Double press detected: ${key}`);
-      this.logger.log(`Double press: ${key}`);
+      log.debug(`Double press detected: ${action}`);
       
       // Trigger dash action
-      switch (key) {
-        case "ArrowUp":
-          this.player.dash("up", this.canvas.element.width, this.canvas.element.height);
-          break;
-        case "ArrowDown":
-          this.player.dash("down", this.canvas.element.width, this.canvas.element.height);
-          break;
-        case "ArrowLeft":
-          this.player.dash("left", this.canvas.element.width, this.canvas.element.height);
-          break;
-        case "ArrowRight":
-          this.player.dash("right", this.canvas.element.width, this.canvas.element.height);
-          break;
+      const direction = moveDirections[action];
+      if (direction) {
+        this.dashPlayer(direction);
       }
     }
 
-    this.lastKeyPressTime[key] = currentTime;
+    this.lastKeyPressTime[action] = currentTime;
+  }
+
+  private dashPlayer(direction: Direction) {
+    const from = this.player.getPosition();
+    if (this.player.dash(direction, this.renderer.width, this.renderer.height)) {
+      this.audio.play("dash");
+      // Afterimages spaced along the path the dash skipped over
+      const to = this.player.getPosition();
+      const steps = 4;
+      for (let i = 0; i < steps; i++) {
+        const t = i / steps;
+        this.particles.emit(
+          effects.dashTrail,
+          lerp(from.x, to.x, t) + from.width / 2,
+          lerp(from.y, to.y, t) + from.height / 2
+        );
+      }
+    }
   }
 
   private updateDifficulty() {
     const difficultyLevel = Math.floor(this.gameTime / this.difficultyScalingInterval);
+    if (difficultyLevel !== this.difficultyLevel) {
+      this.difficultyLevel = difficultyLevel;
+      this.messages.push(`Level ${difficultyLevel + 1}`);
+    }
     this.enemySpawnInterval = Math.max(200, 1000 - difficultyLevel * 100); // Minimum 200ms between spawns
     this.maxEnemiesPerSpawn = Math.min(5, 3 + difficultyLevel); // Maximum 5 enemies per spawn
+
+    // A milestone reached mid-fight or mid-breather waits for them to end
+    if (
+      this.bossesEnabled &&
+      this.stressEnemies === 0 &&
+      !this.boss &&
+      this.gameTime >= this.breatherUntil &&
+      difficultyLevel >= this.nextBossLevel
+    ) {
+      this.nextBossLevel = difficultyLevel + bossLevelInterval;
+      this.startBossFight();
+    }
+  }
+}
+
+// Stress scene for the bullet pools: ring emitters keep thousands of enemy
+// bullets alive while frame times are graphed. P switches to plain allocation
+// with filter(), the way the game used to work, for comparison; Up/Down change
+// the bullet count.
+class BulletBenchmark {
+  private canvas: Canvas;
+  private pool: ObjectPool<EnemyProjectile>;
+  private bullets: EntityList<EnemyProjectile> = new EntityList();
+  private unpooledBullets: EnemyProjectile[] = [];
+  private pooled: boolean = true;
+  private emitter: BulletEmitter = new BulletEmitter({ kind: "ring", count: 36, speed: 150, color: "violet" });
+  private rng: Random = new Random(1);
+  private targetCount: number;
+  private frameIntervals: number[] = []; // Milliseconds between frames, most recent last
+  private workTimes: number[] = []; // Milliseconds spent in update + draw
+  private historyLength: number = 240;
+  private lastTime: number = 0;
+  private animationFrameId: number | null = null;
+  private boundKeyDown = this.handleKeyDown.bind(this);
+
+  constructor(width: number = 400, height: number = 800, targetCount: number = 3000) {
+    this.canvas = new Canvas(width, height);
+    this.targetCount = targetCount;
+    this.pool = new ObjectPool(() => new EnemyProjectile(), 20000);
+    this.pool.prewarm(targetCount);
+  }
+
+  start() {
+    if (this.animationFrameId !== null) return;
+    window.addEventListener("keydown", this.boundKeyDown);
+    this.lastTime = performance.now();
+    this.animationFrameId = requestAnimationFrame(this.frame.bind(this));
+  }
+
+  stop() {
+    window.removeEventListener("keydown", this.boundKeyDown);
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  destroy() {
+    this.stop();
+    this.canvas.detach();
+    this.bullets.clear();
+    this.unpooledBullets = [];
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    if (event.code === "KeyP") {
+      this.switchMode();
+    } else if (event.code === "ArrowUp") {
+      this.targetCount += 1000;
+    } else if (event.code === "ArrowDown") {
+      this.targetCount = Math.max(1000, this.targetCount - 1000);
+    }
+  }
+
+  private switchMode() {
+    this.bullets.clear((bullet) => this.pool.release(bullet));
+    this.unpooledBullets = [];
+    this.pooled = !this.pooled;
+    this.frameIntervals = [];
+    this.workTimes = [];
+  }
+
+  private get count(): number {
+    return this.pooled ? this.bullets.length : this.unpooledBullets.length;
+  }
+
+  private frame(now: number) {
+    const interval = now - this.lastTime;
+    this.lastTime = now;
+    const workStart = performance.now();
+
+    this.update(Math.min(interval / 1000, 0.05));
+    this.draw();
+
+    this.record(this.frameIntervals, interval);
+    this.record(this.workTimes, performance.now() - workStart);
+    this.animationFrameId = requestAnimationFrame(this.frame.bind(this));
+  }
+
+  private record(history: number[], value: number) {
+    history.push(value);
+    if (history.length > this.historyLength) history.shift();
+  }
+
+  private update(deltaTime: number) {
+    const { width, height } = this.canvas;
+    // Top up with ring volleys, a few per frame so the field stays mixed
+    for (let volleys = 0; volleys < 10 && this.count < this.targetCount; volleys++) {
+      const x = this.rng.range(width * 0.2, width * 0.8);
+      const y = this.rng.range(height * 0.2, height * 0.8);
+      this.emitter.fire(x, y, { x, y }).forEach((spec) => {
+        if (this.pooled) {
+          const bullet = this.pool.obtain();
+          if (!bullet) return;
+          bullet.init(spec);
+          this.bullets.add(bullet);
+        } else {
+          const bullet = new EnemyProjectile();
+          bullet.init(spec);
+          this.unpooledBullets.push(bullet);
+        }
+      });
+    }
+
+    if (this.pooled) {
+      this.bullets.forEach((bullet) => bullet.update(deltaTime));
+      this.bullets.removeWhere(
+        (bullet) => bullet.isOffScreen(width, height),
+        (bullet) => this.pool.release(bullet)
+      );
+    } else {
+      this.unpooledBullets.forEach((bullet) => bullet.update(deltaTime));
+      this.unpooledBullets = this.unpooledBullets.filter((bullet) => !bullet.isOffScreen(width, height));
+    }
+  }
+
+  private draw() {
+    const ctx = this.canvas.ctx;
+    this.canvas.clear();
+    if (this.pooled) {
+      this.bullets.forEach((bullet) => bullet.draw(ctx));
+    } else {
+      this.unpooledBullets.forEach((bullet) => bullet.draw(ctx));
+    }
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+    const stats = this.pool.getStats();
+    const lines = [
+      `${this.pooled ? "Pooled" : "Unpooled"} (P to switch, Up/Down for count)`,
+      `Bullets: ${this.count} / ${this.targetCount}`,
+      `Frame: avg ${average(this.frameIntervals).toFixed(1)}ms, worst ${Math.max(0, ...this.frameIntervals).toFixed(1)}ms`,
+      `Work: avg ${average(this.workTimes).toFixed(2)}ms, worst ${Math.max(0, ...this.workTimes).toFixed(2)}ms`,
+      `Pool: ${stats.inUse} in use, ${stats.free} free, ${stats.created} created, peak ${stats.peak}`,
+    ];
+
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillRect(0, 0, this.canvas.width, 170); // Behind the text and the graph
+    ctx.fillStyle = "white";
+    ctx.font = "13px Arial";
+    ctx.textBaseline = "top";
+    lines.forEach((line, index) => ctx.fillText(line, 10, 10 + index * 18));
+
+    // Frame interval graph: flat is good, spikes are hitches. Line marks 60fps.
+    const graphTop = 110;
+    const graphHeight = 50;
+    const scale = graphHeight / 50; // 50ms full height
+    const barWidth = this.canvas.width / this.historyLength;
+    ctx.fillStyle = "lime";
+    this.frameIntervals.forEach((interval, index) => {
+      const barHeight = Math.min(graphHeight, interval * scale);
+      ctx.fillRect(index * barWidth, graphTop + graphHeight - barHeight, Math.max(1, barWidth), barHeight);
+    });
+    ctx.fillStyle = "red";
+    ctx.fillRect(0, graphTop + graphHeight - (1000 / 60) * scale, this.canvas.width, 1);
+    ctx.restore();
   }
 }
 
-export { Game };
\ No newline at end of file
+export { Game, BulletBenchmark };
+export type { GameConfig, GameSnapshot, InputEvent, ShooterAction };
\ No newline at end of file
@@ -1,29 +1,21 @@
-class Canvas {
-  public element: HTMLCanvasElement;
-  public ctx: CanvasRenderingContext2D;
-
-  constructor(
-    width: number = 800,
-    height: number = 600,
-    id: string = "canvas"
-  ) {
-    this.element = document.getElementById(id) as HTMLCanvasElement;
-    if (!this.element) throw new Error("Canvas element not found");
-    this.ctx = this.element.getContext("2d")!;
-    this.element.width = width;
-    this.element.height = height;
-  }
-
-  clear() {
-    this.ctx.fillStyle = "black";
-    this.ctx.fillRect(0, 0, this.element.width, this.element.height);
-  }
-
-  fadeBackground() {
-    this.ctx.fillStyle = "rgba(0, 0, 0, 0.1)";
-    this.ctx.fillRect(0, 0, this.element.width, this.element.height);
-  }
-}
+import { AudioManager } from "./lib/audio-manager";
+import { Canvas } from "./lib/canvas";
+import { Random } from "./lib/random";
+import type { Renderer } from "./lib/renderer";
+import { InputManager } from "./lib/input";
+import type { Bindings } from "./lib/input";
+import { ControlsScreen } from "./lib/controls-screen";
+import { HighScoreStorage, formatTime } from "./lib/high-scores";
+import { NameEntry } from "./lib/name-entry";
+import { ParticleSystem } from "./lib/particles";
+import { SpatialHash } from "./lib/collision";
+import type { Aabb } from "./lib/collision";
+import type { EmitterConfig } from "./lib/particles";
+import { Log } from "./lib/log";
+import { DevOverlay, drawGridLines } from "./lib/dev-overlay";
+import shootSoundUrl from "../assets/audio/shoot.wav?url";
+
+const log = new Log('bomb-grid');
 
 class Grid {
   protected rows: number;
@@ -111,13 +103,13 @@ class Bomb {
     this.col = col;
     this.timer = timer;
     this.explosionRadius = explosionRadius;
-    console.log('Bomb created at', row, col); // Debug log
+    log.debug(`Bomb created at ${row},${col}`);
   }
 
   public update(deltaTime: number): boolean {
     this.timer -= deltaTime;
     if (this.timer <= 0) {
-      console.log('Bomb exploding at', this.row, this.col); // Debug log
+      log.debug(`Bomb exploding at ${this.row},${this.col}`);
     }
     return this.timer > 0;
   }
@@ -240,14 +232,16 @@ class Player {
     }
   }
 
-  public dropBomb(): void {
+  // Returns true if a bomb was placed
+  public dropBomb(): boolean {
     if (this.bombCooldown <= 0) {
-      console.log('Dropping bomb at', this.row, this.col); // Debug log
+      log.debug(`Dropping bomb at ${this.row},${this.col}`);
       this.bombs.push(new Bomb(this.row, this.col));
       this.bombCooldown = this.bombCooldownTime;
-    } else {
-      console.log('Bomb on cooldown', this.bombCooldown); // Debug log
+      return true;
     }
+    log.debug(`Bomb on cooldown for ${Math.ceil(this.bombCooldown)}ms`);
+    return false;
   }
 
   public updateBombs(deltaTime: number): { row: number, col: number }[] {
@@ -260,50 +254,118 @@ class Player {
       }
       return true;
     });
-    if (this.bombs.length > 0) {
-      console.log('Active bombs:', this.bombs.length); // Debug log
-    }
     return explosions;
   }
 
+  public getPath(): readonly Point[] {
+    return this.path;
+  }
+
+  public getBombCount(): number {
+    return this.bombs.length;
+  }
+
   public drawBombs(ctx: CanvasRenderingContext2D, cellSize: number): void {
     this.bombs.forEach(bomb => bomb.draw(ctx, cellSize));
   }
 }
 
+// Pointer Events cover mouse, touch and pen: a tap/click picks a path target,
+// holding still for longPressDelay asks for a bomb instead
 class MouseHandler {
-  private canvas: HTMLCanvasElement;
+  private canvas: Canvas;
   private cellSize: number;
   private hoveredCell: { row: number; col: number } | null = null;
   private clickedCell: Point | null = null;
-
-  constructor(canvas: HTMLCanvasElement, cellSize: number) {
+  private longPressedCell: Point | null = null;
+  private press: { pointerId: number; x: number; y: number; cell: Point } | null = null;
+  private longPressTimer: number | null = null;
+  private longPressDelay: number = 500; // 500ms hold to drop a bomb
+  private tapSlop: number = 10; // Pixels a press may wander and still count as a tap
+  private boundPointerMove = this.handlePointerMove.bind(this);
+  private boundPointerLeave = this.handlePointerLeave.bind(this);
+  private boundPointerDown = this.handlePointerDown.bind(this);
+  private boundPointerUp = this.handlePointerUp.bind(this);
+  private boundPointerCancel = this.cancelPress.bind(this);
+
+  constructor(canvas: Canvas, cellSize: number) {
     this.canvas = canvas;
     this.cellSize = cellSize;
-    this.addEventListeners();
+    this.attach();
   }
 
-  private addEventListeners(): void {
-    this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.addEventListener('mouseout', this.handleMouseOut.bind(this));
-    this.canvas.addEventListener('click', this.handleClick.bind(this));
+  attach(): void {
+    this.canvas.element.style.touchAction = 'none';
+    this.canvas.element.addEventListener('pointermove', this.boundPointerMove);
+    this.canvas.element.addEventListener('pointerleave', this.boundPointerLeave);
+    this.canvas.element.addEventListener('pointerdown', this.boundPointerDown);
+    this.canvas.element.addEventListener('pointerup', this.boundPointerUp);
+    this.canvas.element.addEventListener('pointercancel', this.boundPointerCancel);
   }
 
-  private handleMouseMove(event: MouseEvent): void {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-    
-    const col = Math.floor(x / this.cellSize);
-    const row = Math.floor(y / this.cellSize);
-    
-    this.hoveredCell = { row, col };
+  detach(): void {
+    this.canvas.element.removeEventListener('pointermove', this.boundPointerMove);
+    this.canvas.element.removeEventListener('pointerleave', this.boundPointerLeave);
+    this.canvas.element.removeEventListener('pointerdown', this.boundPointerDown);
+    this.canvas.element.removeEventListener('pointerup', this.boundPointerUp);
+    this.canvas.element.removeEventListener('pointercancel', this.boundPointerCancel);
+    this.cancelPress();
+    this.hoveredCell = null;
+  }
+
+  private getPosition(event: PointerEvent): { x: number; y: number } {
+    return this.canvas.toLogical(event.clientX, event.clientY);
+  }
+
+  private getCell(x: number, y: number): Point {
+    return { row: Math.floor(y / this.cellSize), col: Math.floor(x / this.cellSize) };
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    const { x, y } = this.getPosition(event);
+    this.hoveredCell = this.getCell(x, y);
+
+    if (this.press && this.press.pointerId === event.pointerId &&
+        Math.hypot(x - this.press.x, y - this.press.y) > this.tapSlop) {
+      this.cancelPress();
+    }
   }
 
-  private handleMouseOut(): void {
+  private handlePointerLeave(): void {
     this.hoveredCell = null;
   }
 
+  private handlePointerDown(event: PointerEvent): void {
+    if (this.press) return; // Ignore extra fingers
+    const { x, y } = this.getPosition(event);
+    const cell = this.getCell(x, y);
+    this.hoveredCell = cell;
+    this.press = { pointerId: event.pointerId, x, y, cell };
+    this.longPressTimer = window.setTimeout(() => {
+      this.longPressedCell = cell;
+      this.press = null;
+      this.longPressTimer = null;
+    }, this.longPressDelay);
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (this.press && this.press.pointerId === event.pointerId) {
+      this.clickedCell = this.press.cell;
+    }
+    this.cancelPress();
+    if (event.pointerType !== 'mouse') {
+      this.hoveredCell = null; // Fingers don't hover
+    }
+  }
+
+  private cancelPress(): void {
+    if (this.longPressTimer !== null) {
+      window.clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+    this.press = null;
+  }
+
   public getHoveredCell(): { row: number; col: number } | null {
     return this.hoveredCell;
   }
@@ -321,22 +383,17 @@ class MouseHandler {
     }
   }
 
-  private handleClick(event: MouseEvent): void {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-    
-    const col = Math.floor(x / this.cellSize);
-    const row = Math.floor(y / this.cellSize);
-    
-    this.clickedCell = { row, col };
-  }
-
   public getClickedCell(): Point | null {
     const cell = this.clickedCell;
     this.clickedCell = null;
     return cell;
   }
+
+  public getLongPressedCell(): Point | null {
+    const cell = this.longPressedCell;
+    this.longPressedCell = null;
+    return cell;
+  }
 }
 
 class Enemy {
@@ -352,12 +409,14 @@ class Enemy {
   private maxRow: number;
   private maxCol: number;
   private isPlayerDetected: boolean = false;
+  private rng: Random;
 
-  constructor(row: number, col: number, maxRow: number, maxCol: number) {
+  constructor(row: number, col: number, maxRow: number, maxCol: number, rng: Random = new Random()) {
     this.row = row;
     this.col = col;
     this.maxRow = maxRow;
     this.maxCol = maxCol;
+    this.rng = rng;
     this.currentColor = this.normalColor;
   }
 
@@ -394,7 +453,7 @@ class Enemy {
     const directions = [
       [-1, 0], [1, 0], [0, -1], [0, 1] // up, down, left, right
     ];
-    const [dy, dx] = directions[Math.floor(Math.random() * directions.length)];
+    const [dy, dx] = this.rng.pick(directions);
     
     const newRow = this.row + dy;
     const newCol = this.col + dx;
@@ -423,24 +482,139 @@ class Enemy {
   }
 }
 
+type GridAction = 'move-up' | 'move-down' | 'move-left' | 'move-right' | 'drop-bomb' | 'mute' | 'controls';
+
+const defaultBindings: Bindings<GridAction> = {
+  'move-up': [
+    { device: 'keyboard', code: 'ArrowUp' },
+    { device: 'keyboard', code: 'KeyW' },
+    { device: 'gamepad', button: 12 },
+    { device: 'gamepad', axis: 1, direction: -1 },
+  ],
+  'move-down': [
+    { device: 'keyboard', code: 'ArrowDown' },
+    { device: 'keyboard', code: 'KeyS' },
+    { device: 'gamepad', button: 13 },
+    { device: 'gamepad', axis: 1, direction: 1 },
+  ],
+  'move-left': [
+    { device: 'keyboard', code: 'ArrowLeft' },
+    { device: 'keyboard', code: 'KeyA' },
+    { device: 'gamepad', button: 14 },
+    { device: 'gamepad', axis: 0, direction: -1 },
+  ],
+  'move-right': [
+    { device: 'keyboard', code: 'ArrowRight' },
+    { device: 'keyboard', code: 'KeyD' },
+    { device: 'gamepad', button: 15 },
+    { device: 'gamepad', axis: 0, direction: 1 },
+  ],
+  'drop-bomb': [{ device: 'keyboard', code: 'KeyB' }, { device: 'gamepad', button: 0 }],
+  'mute': [{ device: 'keyboard', code: 'KeyM' }],
+  'controls': [{ device: 'keyboard', code: 'KeyC' }],
+};
+
+// Rows of the controls screen, in this order
+const actionLabels: { [action in GridAction]: string } = {
+  'move-up': 'Move up',
+  'move-down': 'Move down',
+  'move-left': 'Move left',
+  'move-right': 'Move right',
+  'drop-bomb': 'Drop bomb',
+  'mute': 'Mute',
+  'controls': 'Controls',
+};
+
+// Particle effects for one exploding cell; angles in degrees, 90 points down
+const blastEffects: EmitterConfig[] = [
+  {
+    count: 14,
+    speed: [40, 180],
+    life: [250, 500],
+    drag: 3,
+    color: [[255, 230, 150], [220, 40, 0]],
+    size: [5, 1],
+    sizeOverLife: true,
+    blend: 'lighter',
+  },
+  {
+    count: 4,
+    speed: [10, 40],
+    angle: [-120, -60],
+    life: [600, 1000],
+    color: [90, 90, 90],
+    alpha: [0.6, 0],
+    size: [4, 12],
+    sizeOverLife: true,
+  },
+];
+
+interface GridConfig {
+  renderer?: Renderer; // Draw here instead of a page canvas; a HeadlessRenderer runs without a DOM
+  seed?: number; // Fixed seed for enemy placement and patrols
+  enemies?: Point[]; // Starting cells, instead of five random ones
+  highScores?: boolean; // Ask for a name when a clear makes the table; on by default with a page canvas
+}
+
+// Plain copy of the simulation state, for tests and tools
+interface GridSnapshot {
+  player: Point;
+  enemies: Point[];
+  bombs: number;
+  explosions: Point[];
+  enemiesDestroyed: number;
+  elapsedTime: number;
+  completed: boolean;
+  score: number;
+}
+
 class Game {
-  private canvas: Canvas;
+  private renderer: Renderer;
+  private canvas: Canvas | null; // Null when running headless
   private grid: Grid;
   private cellSize: number;
   private rows: number;
   private cols: number;
   private player: Player;
-  private mouseHandler: MouseHandler;
+  private mouseHandler: MouseHandler | null;
   private lastTime: number = 0;
   private enemies: Enemy[] = [];
-  private keyState: { [key: string]: boolean } = {};
+  private input: InputManager<GridAction>;
+  private controls: ControlsScreen<GridAction>;
   private explosions: { row: number, col: number, timer: number }[] = [];
+  private explosionHash: SpatialHash<{ row: number, col: number, timer: number }>;
+  private particles: ParticleSystem;
+  private rng: Random;
+  private held: Set<GridAction> = new Set();
+  private overlay: DevOverlay = new DevOverlay();
+  private detectionRadius: number = 3; // Cells within which enemies chase the player
   private moveDelay: number = 200; // 200ms delay between moves
-  private lastMoveTime: number = 0;
+  private lastMoveTime: number = -Infinity; // On the elapsedTime clock
+  private audio: AudioManager;
+  private elapsedTime: number = 0; // Milliseconds since the start, frozen once the grid is cleared
+  private enemiesDestroyed: number = 0;
+  private completed: boolean = false;
+  private finalScore: number = 0;
+  private highScores: HighScoreStorage = new HighScoreStorage();
+  private nameEntry: NameEntry;
+  private savedRank: number | null = null;
+  private highScoresEnabled: boolean;
+  private nameEntryInterrupted: boolean = false; // Left the scene mid-entry; reopened on return
+  private animationFrameId: number | null = null;
+  private listening: boolean; // Input attached; false while the scene is left
+  private destroyed: boolean = false;
+
+  constructor(width: number = 800, height: number = 600, canvasId: string = "canvas", config: GridConfig = {}) {
+    if (config.renderer) {
+      this.canvas = null;
+      this.renderer = config.renderer;
+    } else {
+      this.canvas = new Canvas(width, height, canvasId);
+      this.renderer = this.canvas;
+    }
+    this.rng = new Random(config.seed);
+    this.particles = new ParticleSystem(800, this.rng.fork());
 
-  constructor(width: number = 800, height: number = 600, canvasId: string = "canvas") {
-    this.canvas = new Canvas(width, height, canvasId);
-    
     // Calculate the number of rows and columns
     this.rows = 20; // You can adjust this number to change the grid density
     this.cols = Math.floor(this.rows * (width / height));
@@ -449,15 +623,46 @@ class Game {
     this.cellSize = width / this.cols;
     
     // Adjust canvas size to fit the grid perfectly
-    this.canvas.element.width = this.cellSize * this.cols;
-    this.canvas.element.height = this.cellSize * this.rows;
+    this.canvas?.resize(this.cellSize * this.cols, this.cellSize * this.rows);
     
     this.grid = new Grid(this.rows, this.cols, this.cellSize);
+    this.explosionHash = new SpatialHash(this.cellSize * 4);
     this.player = new Player(this.rows, this.cols);
-    this.mouseHandler = new MouseHandler(this.canvas.element, this.cellSize);
+    this.mouseHandler = this.canvas && new MouseHandler(this.canvas, this.cellSize);
+    this.audio = new AudioManager();
+    this.audio.register({
+      bombDrop: { url: shootSoundUrl, volume: 0.4, pitch: 0.8, pitchVariation: 0.05, maxVoices: 2 },
+      explosion: { url: shootSoundUrl, volume: 0.9, pitch: 0.35, pitchVariation: 0.05, maxVoices: 3 },
+    });
+    this.input = new InputManager(defaultBindings, 'bomb-grid-bindings');
+    this.controls = new ControlsScreen(this.input, actionLabels);
+    this.nameEntry = new NameEntry((name) => {
+      this.savedRank = this.highScores.add({
+        game: 'bomb-grid',
+        name,
+        score: this.finalScore,
+        time: this.elapsedTime,
+        seed: null,
+        difficulty: 'normal',
+      });
+    });
+    this.highScoresEnabled = config.highScores ?? this.canvas !== null;
     this.lastTime = performance.now();
-    this.spawnEnemies(5); // Spawn 5 enemies
-    this.addKeyboardListeners();
+    if (config.enemies) {
+      config.enemies.forEach(({ row, col }) => this.enemies.push(new Enemy(row, col, this.rows, this.cols, this.rng.fork())));
+    } else {
+      this.spawnEnemies(5); // Spawn 5 enemies
+    }
+    this.input.onAction(this.handleAction.bind(this));
+    this.overlay.onChange = () => {
+      if (this.animationFrameId === null) this.draw(); // Stopped: show the change anyway
+    };
+    this.listening = this.canvas !== null;
+    if (this.canvas) {
+      this.audio.preload();
+      this.input.attach();
+      this.overlay.attach();
+    }
   }
 
   public init(): void {
@@ -476,7 +681,7 @@ class Game {
     for (const [dr, dc] of directions) {
       const newRow = row + dr;
       const newCol = col + dc;
-      if (newRow >= 0 && newRow < this.rows && newCol >= 0 && newCol < this.cols) {
+      if (this.isInGrid({ row: newRow, col: newCol })) {
         neighbors.push({ row: newRow, col: newCol });
       }
     }
@@ -484,7 +689,17 @@ class Game {
     return neighbors;
   }
 
-  private findPath(start: Point, goal: Point): Point[] {
+  private isInGrid({ row, col }: Point): boolean {
+    return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
+  }
+
+  // Cells to walk from start to goal, excluding start; empty when the goal
+  // can't be reached, e.g. a tap on the letterbox edge just past the last column
+  public findPath(start: Point, goal: Point): Point[] {
+    if (!this.isInGrid(goal)) {
+      return [];
+    }
+
     const frontier = new PriorityQueue<Point>();
     frontier.enqueue(start, 0);
     const cameFrom = new Map<string, Point>();
@@ -512,6 +727,10 @@ class Game {
       }
     }
 
+    if (!cameFrom.has(`${goal.row},${goal.col}`)) {
+      return [];
+    }
+
     const path: Point[] = [];
     let current = goal;
     while (current.row !== start.row || current.col !== start.col) {
@@ -523,77 +742,130 @@ class Game {
 
   private spawnEnemies(count: number): void {
     for (let i = 0; i < count; i++) {
-      const row = Math.floor(Math.random() * this.rows);
-      const col = Math.floor(Math.random() * this.cols);
-      this.enemies.push(new Enemy(row, col, this.rows, this.cols));
+      const row = this.rng.int(this.rows);
+      const col = this.rng.int(this.cols);
+      this.enemies.push(new Enemy(row, col, this.rows, this.cols, this.rng.fork()));
     }
   }
 
+  // Inset by a pixel so a cell's box doesn't touch its neighbours' hash cells
+  private getCellBounds(cell: { row: number, col: number }): Aabb {
+    return {
+      x: cell.col * this.cellSize + 1,
+      y: cell.row * this.cellSize + 1,
+      width: this.cellSize - 2,
+      height: this.cellSize - 2,
+    };
+  }
+
   private isWithinRadius(entity1: { row: number, col: number }, entity2: { row: number, col: number }, radius: number): boolean {
     const dx = entity1.col - entity2.col;
     const dy = entity1.row - entity2.row;
     return Math.sqrt(dx * dx + dy * dy) <= radius;
   }
 
-  private addKeyboardListeners(): void {
-    window.addEventListener('keydown', (e) => {
-      this.keyState[e.key.toLowerCase()] = true;
-      if (e.key.toLowerCase() === 'b') {
-        console.log('B key pressed'); // Debug log
-        this.player.dropBomb();
+  // Keyboard and gamepad actions land here; headless runs call it directly
+  public handleAction(action: GridAction, pressed: boolean): void {
+    if (!pressed) {
+      this.held.delete(action);
+      return;
+    }
+    this.held.add(action);
+    this.audio.unlock();
+    if (action === 'drop-bomb') {
+      if (this.player.dropBomb()) {
+        this.audio.play('bombDrop');
       }
-    });
-
-    window.addEventListener('keyup', (e) => {
-      this.keyState[e.key.toLowerCase()] = false;
-    });
+    }
+    if (action === 'mute') {
+      this.audio.toggleMute();
+    }
+    if (action === 'controls' && !this.completed) {
+      this.controls.open();
+    }
   }
 
   public update(): void {
     const currentTime = performance.now();
     const deltaTime = currentTime - this.lastTime;
     this.lastTime = currentTime;
+    this.overlay.recordFrame(deltaTime);
+
+    // The game holds still while the controls screen is up
+    if (this.controls.isOpen) {
+      this.controls.poll();
+      return;
+    }
+    this.input.poll();
+    this.step(deltaTime);
+  }
+
+  // Advances the game by deltaTime milliseconds. The loop feeds it real frame
+  // times; tests call it directly with whatever step they like.
+  public step(deltaTime: number): void {
+    if (this.completed) {
+      // Taps confirm the name for players without a keyboard
+      if (this.mouseHandler?.getClickedCell()) {
+        this.nameEntry.submit();
+      }
+      return;
+    }
+    this.elapsedTime += deltaTime;
 
     // Handle player movement
-    if (currentTime - this.lastMoveTime >= this.moveDelay) {
+    if (this.elapsedTime - this.lastMoveTime >= this.moveDelay) {
       let moved = false;
-      if (this.keyState['arrowup'] || this.keyState['w']) {
+      if (this.held.has('move-up')) {
         this.player.moveInDirection('up');
         moved = true;
-      } else if (this.keyState['arrowdown'] || this.keyState['s']) {
+      } else if (this.held.has('move-down')) {
         this.player.moveInDirection('down');
         moved = true;
-      } else if (this.keyState['arrowleft'] || this.keyState['a']) {
+      } else if (this.held.has('move-left')) {
         this.player.moveInDirection('left');
         moved = true;
-      } else if (this.keyState['arrowright'] || this.keyState['d']) {
+      } else if (this.held.has('move-right')) {
         this.player.moveInDirection('right');
         moved = true;
       }
 
       if (moved) {
-        this.lastMoveTime = currentTime;
+        this.lastMoveTime = this.elapsedTime;
+      }
+    }
+
+    if (this.mouseHandler?.getLongPressedCell()) {
+      this.audio.unlock();
+      if (this.player.dropBomb()) {
+        this.audio.play('bombDrop');
       }
     }
 
-    const clickedCell = this.mouseHandler.getClickedCell();
+    const clickedCell = this.mouseHandler?.getClickedCell();
     if (clickedCell) {
-      const path = this.findPath({ row: this.player.row, col: this.player.col }, clickedCell);
-      this.player.setPath(path);
+      this.audio.unlock();
+      this.moveTo(clickedCell);
     }
     this.player.move(deltaTime);
 
     // Update enemies
     this.enemies.forEach(enemy => {
-      const isPlayerNearby = this.isWithinRadius(enemy, this.player, 3);
+      const isPlayerNearby = this.isWithinRadius(enemy, this.player, this.detectionRadius);
       enemy.move(deltaTime, this.player.row, this.player.col, isPlayerNearby);
     });
 
     const newExplosions = this.player.updateBombs(deltaTime);
     if (newExplosions.length > 0) {
-      console.log('New explosions:', newExplosions); // Debug log
+      log.info(`${newExplosions.length} cells exploded`);
+      this.audio.play('explosion');
     }
     this.explosions = this.explosions.concat(newExplosions.map(e => ({ ...e, timer: 500 })));
+    newExplosions.forEach(({ row, col }) => {
+      const x = (col + 0.5) * this.cellSize;
+      const y = (row + 0.5) * this.cellSize;
+      blastEffects.forEach(effect => this.particles.emit(effect, x, y));
+    });
+    this.particles.update(deltaTime / 1000); // Particles work in seconds
 
     // Update and remove old explosions
     this.explosions = this.explosions.filter(explosion => {
@@ -602,42 +874,208 @@ class Game {
     });
 
     // Check if enemies are caught in explosions
+    this.explosionHash.clear();
+    this.explosions.forEach(explosion => this.explosionHash.insert(explosion, this.getCellBounds(explosion)));
+    const enemyCount = this.enemies.length;
     this.enemies = this.enemies.filter(enemy => {
-      return !this.explosions.some(explosion => 
+      return !this.explosionHash.query(this.getCellBounds(enemy)).some(explosion =>
         explosion.row === enemy.row && explosion.col === enemy.col
       );
     });
+    this.enemiesDestroyed += enemyCount - this.enemies.length;
+
+    if (this.enemies.length === 0) {
+      this.completeGrid();
+    }
+  }
+
+  // Sets the player walking to a cell, as a tap on it would
+  public moveTo(cell: Point): void {
+    this.player.setPath(this.findPath({ row: this.player.row, col: this.player.col }, cell));
+  }
+
+  public getSnapshot(): GridSnapshot {
+    return {
+      player: { row: this.player.row, col: this.player.col },
+      enemies: this.enemies.map(({ row, col }) => ({ row, col })),
+      bombs: this.player.getBombCount(),
+      explosions: this.explosions.map(({ row, col }) => ({ row, col })),
+      enemiesDestroyed: this.enemiesDestroyed,
+      elapsedTime: this.elapsedTime,
+      completed: this.completed,
+      score: this.finalScore,
+    };
+  }
+
+  private completeGrid(): void {
+    this.completed = true;
+    // 100 per enemy plus a bonus that runs out after five minutes
+    const secondsTaken = Math.floor(this.elapsedTime / 1000);
+    this.finalScore = this.enemiesDestroyed * 100 + Math.max(0, 300 - secondsTaken) * 10;
+
+    if (this.highScoresEnabled && this.highScores.qualifies('bomb-grid', 'normal', this.finalScore, this.elapsedTime)) {
+      this.nameEntry.open(this.highScores.getLastName());
+    }
   }
 
   private gameLoop(): void {
     this.update();
     this.draw();
-    requestAnimationFrame(() => this.gameLoop());
+    this.animationFrameId = requestAnimationFrame(() => this.gameLoop());
   }
 
   public start(): void {
+    if (this.animationFrameId !== null || this.destroyed) return;
     this.init();
-    requestAnimationFrame(() => this.gameLoop());
+    this.lastTime = performance.now(); // Time spent stopped doesn't count
+    this.animationFrameId = requestAnimationFrame(() => this.gameLoop());
+  }
+
+  public stop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  // Scene hooks: the constructor already listens, so only a re-entry attaches
+  public enter(): void {
+    if (!this.listening && this.canvas) {
+      this.canvas.attach();
+      this.input.attach();
+      this.overlay.attach();
+      this.mouseHandler?.attach();
+      this.listening = true;
+    }
+    if (this.nameEntryInterrupted) {
+      this.nameEntryInterrupted = false;
+      this.nameEntry.open(this.nameEntry.value); // Pick up where the player left off
+    }
+    this.start();
+  }
+
+  // Unmounts the game for good: the loop, every listener and the AudioContext
+  // all go. The instance can't be started again.
+  public destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.stop();
+    this.input.detach();
+    this.overlay.detach();
+    this.mouseHandler?.detach();
+    this.nameEntry.close();
+    this.controls.close();
+    this.canvas?.detach();
+    this.audio.destroy();
+  }
+
+  public exit(): void {
+    // Nothing is saved until the player confirms; closing also stops its key
+    // capture following us out
+    this.nameEntryInterrupted = this.nameEntry.isActive;
+    this.nameEntry.close();
+    this.controls.close();
+    this.stop();
+    this.input.detach();
+    this.overlay.detach();
+    this.mouseHandler?.detach();
+    this.canvas?.detach();
+    this.listening = false;
   }
 
   public draw(): void {
-    this.canvas.clear();
-    this.grid.draw(this.canvas.ctx);
-    this.mouseHandler.draw(this.canvas.ctx);
-    this.enemies.forEach(enemy => enemy.draw(this.canvas.ctx, this.cellSize));
-    this.player.drawBombs(this.canvas.ctx, this.cellSize);
+    this.renderer.clear();
+    this.grid.draw(this.renderer.ctx);
+    this.mouseHandler?.draw(this.renderer.ctx);
+    this.enemies.forEach(enemy => enemy.draw(this.renderer.ctx, this.cellSize));
+    this.player.drawBombs(this.renderer.ctx, this.cellSize);
     this.drawExplosions();
-    this.player.draw(this.canvas.ctx, this.cellSize);
+    this.particles.draw(this.renderer.ctx);
+    this.player.draw(this.renderer.ctx, this.cellSize);
+    if (this.overlay.visible) {
+      this.drawDebug();
+    }
+
+    if (this.completed) {
+      this.drawCompletion();
+    }
+    if (this.controls.isOpen) {
+      this.controls.draw(this.renderer);
+    }
+    if (this.overlay.visible) {
+      this.overlay.draw(this.renderer, {
+        enemies: this.enemies.length,
+        bombs: this.player.getBombCount(),
+        explosions: this.explosions.length,
+        particles: this.particles.count,
+        'path length': this.player.getPath().length,
+      });
+    }
+  }
+
+  // Explosion hash cells, each enemy's detection radius and the player's queued path
+  private drawDebug(): void {
+    const ctx = this.renderer.ctx;
+    const half = this.cellSize / 2;
+    drawGridLines(ctx, this.cellSize * 4, this.renderer.width, this.renderer.height, 'rgba(255, 0, 255, 0.4)');
+
+    ctx.save();
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = 'rgba(255, 255, 0, 0.5)';
+    this.enemies.forEach(enemy => {
+      ctx.beginPath();
+      ctx.arc(enemy.col * this.cellSize + half, enemy.row * this.cellSize + half, this.detectionRadius * this.cellSize, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+
+    const path = this.player.getPath();
+    if (path.length > 0) {
+      ctx.strokeStyle = 'lime';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(this.player.col * this.cellSize + half, this.player.row * this.cellSize + half);
+      path.forEach(({ row, col }) => ctx.lineTo(col * this.cellSize + half, row * this.cellSize + half));
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  private drawCompletion(): void {
+    const ctx = this.renderer.ctx;
+    const centerX = this.renderer.width / 2;
+    const centerY = this.renderer.height / 2;
+    const lines = [
+      `Cleared in ${formatTime(this.elapsedTime)}`,
+      `Score: ${this.finalScore}`,
+    ];
+    if (this.nameEntry.isActive) {
+      lines.push('New high score! Enter your name:', this.nameEntry.getDisplayText(performance.now()));
+    } else if (this.savedRank !== null) {
+      lines.push(`Saved as #${this.savedRank} on the leaderboard`);
+    }
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, this.renderer.width, this.renderer.height);
+    ctx.fillStyle = 'white';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 28px Arial';
+    ctx.fillText('Grid Cleared!', centerX, centerY - 50);
+    ctx.font = '14px Arial';
+    lines.forEach((line, index) => ctx.fillText(line, centerX, centerY + index * 22));
+    ctx.restore();
   }
 
   private drawExplosions(): void {
     this.explosions.forEach(explosion => {
       const x = explosion.col * this.cellSize;
       const y = explosion.row * this.cellSize;
-      this.canvas.ctx.fillStyle = `rgba(255, 0, 0, ${explosion.timer / 500})`;
-      this.canvas.ctx.fillRect(x, y, this.cellSize, this.cellSize);
+      this.renderer.ctx.fillStyle = `rgba(255, 0, 0, ${explosion.timer / 500})`;
+      this.renderer.ctx.fillRect(x, y, this.cellSize, this.cellSize);
     });
   }
 }
 
-export { Game, Canvas, Player, MouseHandler, Enemy, Bomb };
\ No newline at end of file
+export { Game, Canvas, Player, MouseHandler, Enemy, Bomb };
+export type { GridConfig, GridSnapshot, GridAction, Point };
\ No newline at end of file
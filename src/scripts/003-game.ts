@@ -1,29 +1,4 @@
-class Canvas {
-  public element: HTMLCanvasElement;
-  public ctx: CanvasRenderingContext2D;
-
-  constructor(
-    width: number = 800,
-    height: number = 600,
-    id: string = "canvas"
-  ) {
-    this.element = document.getElementById(id) as HTMLCanvasElement;
-    if (!this.element) throw new Error("Canvas element not found");
-    this.ctx = this.element.getContext("2d")!;
-    this.element.width = width;
-    this.element.height = height;
-  }
-
-  clear() {
-    this.ctx.fillStyle = "black";
-    this.ctx.fillRect(0, 0, this.element.width, this.element.height);
-  }
-
-  fadeBackground() {
-    this.ctx.fillStyle = "rgba(0, 0, 0, 0.1)";
-    this.ctx.fillRect(0, 0, this.element.width, this.element.height);
-  }
-}
+import { Canvas } from "./lib/canvas";
 
 class PriorityQueue<T> {
   private elements: [T, number][] = [];
@@ -44,6 +19,13 @@ class PriorityQueue<T> {
   includes(element: T): boolean {
     return this.elements.some(([e]) => e === element);
   }
+
+  updatePriority(element: T, priority: number): void {
+    const entry = this.elements.find(([e]) => e === element);
+    if (!entry) return;
+    entry[1] = priority;
+    this.elements.sort((a, b) => a[1] - b[1]);
+  }
 }
 
 interface INode {
@@ -98,7 +80,11 @@ class PathFinder {
                     gScore.set(neighbor, tentativeGScore);
                     fScore.set(neighbor, tentativeGScore + this.h(neighbor, end));
 
-                    if (!openSet.includes(neighbor)) {
+                    // A node already queued keeps its place unless its priority
+                    // follows the cheaper route, which can end the search on a longer path
+                    if (openSet.includes(neighbor)) {
+                        openSet.updatePriority(neighbor, fScore.get(neighbor)!);
+                    } else {
                         openSet.enqueue(neighbor, fScore.get(neighbor)!);
                     }
                 }
@@ -241,26 +227,64 @@ class Game {
   private startNode: Node | null = null;
   private endNode: Node | null = null;
   private pathFinder: PathFinder | null = null;
+  private listening: boolean = false;
+  private boundMouseDown = this.handleMouseDown.bind(this);
+  private boundMouseMove = this.handleMouseMove.bind(this);
+  private boundMouseUp = this.handleMouseUp.bind(this);
+  private boundKeyDown = this.handleKeyDown.bind(this);
+  private boundKeyUp = this.handleKeyUp.bind(this);
 
   constructor() {
     this.canvas = new Canvas();
+    this.canvas.onResize = () => this.draw();
     this.initializeGame();
     this.addEventListeners();
   }
 
   private initializeGame(width: number = 800, height: number = 600) {
-    this.canvas.element.width = width;
-    this.canvas.element.height = height;
+    this.canvas.resize(width, height);
     this.canvas.clear();
     this.canvas.fadeBackground();
   }
 
   private addEventListeners() {
-    this.canvas.element.addEventListener('mousedown', this.handleMouseDown.bind(this));
-    this.canvas.element.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.element.addEventListener('mouseup', this.handleMouseUp.bind(this));
-    window.addEventListener('keydown', this.handleKeyDown.bind(this));
-    window.addEventListener('keyup', this.handleKeyUp.bind(this));
+    this.canvas.element.addEventListener('mousedown', this.boundMouseDown);
+    this.canvas.element.addEventListener('mousemove', this.boundMouseMove);
+    this.canvas.element.addEventListener('mouseup', this.boundMouseUp);
+    window.addEventListener('keydown', this.boundKeyDown);
+    window.addEventListener('keyup', this.boundKeyUp);
+    this.listening = true;
+  }
+
+  private removeEventListeners() {
+    this.canvas.element.removeEventListener('mousedown', this.boundMouseDown);
+    this.canvas.element.removeEventListener('mousemove', this.boundMouseMove);
+    this.canvas.element.removeEventListener('mouseup', this.boundMouseUp);
+    window.removeEventListener('keydown', this.boundKeyDown);
+    window.removeEventListener('keyup', this.boundKeyUp);
+    this.listening = false;
+  }
+
+  // Scene hooks. The editor only draws on input, so entering redraws once
+  public enter() {
+    if (!this.listening) {
+      this.canvas.attach();
+      this.addEventListeners();
+    }
+    this.draw();
+  }
+
+  // The editor has no loop or audio, so unmounting just lets go of the page
+  public destroy() {
+    this.exit();
+  }
+
+  public exit() {
+    this.isDragging = false;
+    this.isSpacePressed = false;
+    this.selectedNode = null;
+    this.removeEventListeners();
+    this.canvas.detach();
   }
 
   private handleMouseDown(event: MouseEvent) {
@@ -349,11 +373,7 @@ class Game {
   }
 
   private getMousePosition(event: MouseEvent): { x: number, y: number } {
-    const rect = this.canvas.element.getBoundingClientRect();
-    return {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top
-    };
+    return this.canvas.toLogical(event.clientX, event.clientY);
   }
 
   private findNodeAtPosition(x: number, y: number): Node | null {
@@ -474,4 +494,5 @@ class Game {
   }
 }
 
-export { Game };
\ No newline at end of file
+export { Game, PathFinder };
+export type { INode };
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Canvas } from "./lib/canvas";
+import { SceneManager, FadeTransition, LazyScene } from "./lib/scenes";
+import type { Scene } from "./lib/scenes";
+import { Game as ShooterGame } from "./001-game";
+import { Game as BombGridGame } from "./002-game";
+import { Game as GraphEditor } from "./003-game";
+import { Log } from "./lib/log";
+
+const log = new Log("launcher");
+
+interface LauncherEntry {
+  title: string;
+  description: string;
+  scene: Scene;
+}
+
+// Menu listing the games. Each game is built the first time it is opened and
+// kept afterwards, so leaving and coming back resumes where the player was.
+class LauncherScene implements Scene {
+  private canvas: Canvas;
+  private entries: LauncherEntry[];
+  private selected: number = 0;
+  private manager: SceneManager | null = null;
+  private opening: boolean = false; // Ignores repeat presses while the transition runs
+  private rowHeight: number = 72;
+  private listTop: number = 180;
+  private boundKeyDown = this.handleKeyDown.bind(this);
+  private boundPointerMove = this.handlePointerMove.bind(this);
+  private boundPointerDown = this.handlePointerDown.bind(this);
+
+  constructor(entries: LauncherEntry[]) {
+    this.canvas = new Canvas(400, 600);
+    this.canvas.detach(); // Only listens while entered
+    this.entries = entries;
+  }
+
+  enter(manager: SceneManager) {
+    this.manager = manager;
+    this.opening = false;
+    this.canvas.attach();
+    this.canvas.onResize = () => this.draw();
+    window.addEventListener("keydown", this.boundKeyDown);
+    this.canvas.element.addEventListener("pointermove", this.boundPointerMove);
+    this.canvas.element.addEventListener("pointerdown", this.boundPointerDown);
+    this.draw();
+  }
+
+  exit() {
+    window.removeEventListener("keydown", this.boundKeyDown);
+    this.canvas.element.removeEventListener("pointermove", this.boundPointerMove);
+    this.canvas.element.removeEventListener("pointerdown", this.boundPointerDown);
+    this.canvas.onResize = null;
+    this.canvas.detach();
+  }
+
+  // Destroys every game the launcher has opened, whether or not it is on the stack
+  destroy() {
+    this.entries.forEach((entry) => entry.scene.destroy?.());
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    switch (event.code) {
+      case "ArrowUp":
+        this.select(this.selected - 1);
+        break;
+      case "ArrowDown":
+        this.select(this.selected + 1);
+        break;
+      case "Enter":
+      case "Space":
+        event.preventDefault();
+        this.open(this.selected);
+        break;
+    }
+  }
+
+  private handlePointerMove(event: PointerEvent) {
+    const index = this.entryAt(event);
+    if (index !== null) this.select(index);
+  }
+
+  private handlePointerDown(event: PointerEvent) {
+    const index = this.entryAt(event);
+    if (index !== null) this.open(index);
+  }
+
+  private entryAt(event: PointerEvent): number | null {
+    const { y } = this.canvas.toLogical(event.clientX, event.clientY);
+    const index = Math.floor((y - this.listTop) / this.rowHeight);
+    return index >= 0 && index < this.entries.length ? index : null;
+  }
+
+  private select(index: number) {
+    const next = (index + this.entries.length) % this.entries.length;
+    if (next === this.selected) return;
+    this.selected = next;
+    this.draw();
+  }
+
+  private open(index: number) {
+    if (this.opening) return;
+    this.opening = true;
+    this.manager?.push(this.entries[index].scene).catch((e) => {
+      log.error(`Couldn't open ${this.entries[index].title}:`, e);
+      this.opening = false; // Still on the menu, so let the player pick again
+    });
+  }
+
+  private draw() {
+    const ctx = this.canvas.ctx;
+    const { width } = this.canvas;
+    this.canvas.clear();
+
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "white";
+    ctx.font = "bold 32px Arial";
+    ctx.fillText("Arcade", width / 2, 90);
+    ctx.font = "14px Arial";
+    ctx.fillStyle = "gray";
+    ctx.fillText("Arrows and Enter, or click a game", width / 2, 130);
+
+    this.entries.forEach((entry, index) => {
+      const y = this.listTop + index * this.rowHeight;
+      if (index === this.selected) {
+        ctx.fillStyle = "rgba(255, 255, 255, 0.15)";
+        ctx.fillRect(24, y + 4, width - 48, this.rowHeight - 8);
+      }
+      ctx.fillStyle = index === this.selected ? "yellow" : "white";
+      ctx.font = "bold 20px Arial";
+      ctx.fillText(entry.title, width / 2, y + this.rowHeight / 2 - 10);
+      ctx.fillStyle = "lightgray";
+      ctx.font = "12px Arial";
+      ctx.fillText(entry.description, width / 2, y + this.rowHeight / 2 + 14);
+    });
+    ctx.restore();
+  }
+}
+
+// Boots the launcher on the page's #canvas. Returns the manager so the page
+// can offer a way back to the menu.
+function startLauncher(): SceneManager {
+  const manager = new SceneManager(new FadeTransition());
+  manager.push(
+    new LauncherScene([
+      {
+        title: "Dash Shooter",
+        description: "Dodge, dash and shoot through the waves",
+        scene: new LazyScene(() => new ShooterGame(400, 800)),
+      },
+      {
+        title: "Bomb Grid",
+        description: "Clear the grid of enemies with timed bombs",
+        scene: new LazyScene(() => new BombGridGame(400, 800)),
+      },
+      {
+        title: "Graph Editor",
+        description: "Build a graph and find the shortest path",
+        scene: new LazyScene(() => new GraphEditor()),
+      },
+    ])
+  );
+  return manager;
+}
+
+export { startLauncher, LauncherScene };
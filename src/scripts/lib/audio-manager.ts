@@ -0,0 +1,222 @@
+import { Log } from "./log";
+
+const log = new Log("audio");
+
+type AudioChannel = "master" | "sfx" | "music";
+
+interface SoundDefinition {
+  url: string;
+  volume?: number; // 0..1, before channel volumes are applied
+  pitch?: number; // Playback rate, 1 = original
+  volumeVariation?: number; // +/- random spread applied to volume
+  pitchVariation?: number; // +/- random spread applied to pitch
+  maxVoices?: number; // Concurrent instances of this sound
+}
+
+interface PlayOptions {
+  volume?: number;
+  pitch?: number;
+  loop?: boolean;
+}
+
+interface Voice {
+  name: string;
+  source: AudioBufferSourceNode;
+}
+
+class AudioManager {
+  private context: AudioContext | null = null;
+  private buses: { [channel in AudioChannel]: GainNode } | null = null;
+  private volumes: { [channel in AudioChannel]: number } = { master: 1, sfx: 1, music: 0.6 };
+  private muted: boolean = false;
+  private sounds: Map<string, SoundDefinition> = new Map();
+  private buffers: Map<string, AudioBuffer> = new Map(); // Keyed by url so shared files decode once
+  private pending: Map<string, Promise<AudioBuffer | null>> = new Map();
+  private voices: Voice[] = [];
+  private maxVoices: number;
+  private music: AudioBufferSourceNode | null = null;
+  private available: boolean = typeof AudioContext !== "undefined"; // False in Node, where everything is silent
+
+  constructor(maxVoices: number = 16) {
+    this.maxVoices = maxVoices;
+  }
+
+  // AudioContext has to be created/resumed from a user gesture in most browsers
+  unlock() {
+    if (!this.available) return;
+    const context = this.getContext();
+    if (context.state === "suspended") {
+      context.resume();
+    }
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      const master = this.context.createGain();
+      master.connect(this.context.destination);
+      const sfx = this.context.createGain();
+      sfx.connect(master);
+      const music = this.context.createGain();
+      music.connect(master);
+      this.buses = { master, sfx, music };
+      this.applyVolumes();
+    }
+    return this.context;
+  }
+
+  register(sounds: { [name: string]: SoundDefinition }) {
+    for (const [name, definition] of Object.entries(sounds)) {
+      this.sounds.set(name, definition);
+    }
+  }
+
+  preload(): Promise<void> {
+    const urls = new Set(Array.from(this.sounds.values(), (sound) => sound.url));
+    return Promise.all(Array.from(urls, (url) => this.load(url))).then(() => undefined);
+  }
+
+  private load(url: string): Promise<AudioBuffer | null> {
+    if (!this.available) return Promise.resolve(null);
+    const cached = this.buffers.get(url);
+    if (cached) return Promise.resolve(cached);
+
+    let request = this.pending.get(url);
+    if (!request) {
+      request = fetch(url)
+        .then((response) => response.arrayBuffer())
+        .then((data) => this.getContext().decodeAudioData(data))
+        .then((buffer) => {
+          this.buffers.set(url, buffer);
+          return buffer;
+        })
+        .catch((e) => {
+          log.error("Error loading sound:", url, e);
+          return null;
+        })
+        .finally(() => this.pending.delete(url));
+      this.pending.set(url, request);
+    }
+    return request;
+  }
+
+  play(name: string, options: PlayOptions = {}) {
+    const sound = this.sounds.get(name);
+    if (!sound) {
+      log.warn(`Unknown sound: ${name}`);
+      return;
+    }
+
+    const buffer = this.buffers.get(sound.url);
+    if (!buffer || !this.context || !this.buses || this.muted) {
+      // Not decoded yet: start loading so the next play succeeds
+      if (!buffer) this.load(sound.url);
+      return;
+    }
+
+    this.enforceVoiceLimits(name, sound.maxVoices ?? this.maxVoices);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = options.loop ?? false;
+    source.playbackRate.value = this.vary(options.pitch ?? sound.pitch ?? 1, sound.pitchVariation);
+
+    const gain = this.context.createGain();
+    gain.gain.value = Math.max(0, this.vary(options.volume ?? sound.volume ?? 1, sound.volumeVariation));
+    source.connect(gain);
+    gain.connect(this.buses.sfx);
+
+    const voice = { name, source };
+    this.voices.push(voice);
+    source.onended = () => {
+      this.voices = this.voices.filter((v) => v !== voice);
+    };
+    source.start();
+  }
+
+  playMusic(name: string) {
+    const sound = this.sounds.get(name);
+    const buffer = sound && this.buffers.get(sound.url);
+    if (!buffer || !this.context || !this.buses) return;
+
+    this.stopMusic();
+    this.music = this.context.createBufferSource();
+    this.music.buffer = buffer;
+    this.music.loop = true;
+    this.music.connect(this.buses.music);
+    this.music.start();
+  }
+
+  stopMusic() {
+    this.music?.stop();
+    this.music = null;
+  }
+
+  // Stops everything and closes the AudioContext; browsers cap how many can
+  // be open, so an unmounted game must give its one back
+  destroy() {
+    this.stopMusic();
+    [...this.voices].forEach((voice) => this.stopVoice(voice));
+    this.context?.close();
+    this.context = null;
+    this.buses = null;
+    this.buffers.clear();
+    this.pending.clear();
+  }
+
+  private enforceVoiceLimits(name: string, maxForSound: number) {
+    const sameSound = this.voices.filter((voice) => voice.name === name);
+    if (sameSound.length >= maxForSound) {
+      this.stopVoice(sameSound[0]);
+    }
+    if (this.voices.length >= this.maxVoices) {
+      this.stopVoice(this.voices[0]);
+    }
+  }
+
+  private stopVoice(voice: Voice) {
+    voice.source.onended = null;
+    voice.source.stop();
+    this.voices = this.voices.filter((v) => v !== voice);
+  }
+
+  private vary(value: number, variation: number = 0): number {
+    return value + (Math.random() * 2 - 1) * variation;
+  }
+
+  setVolume(channel: AudioChannel, volume: number) {
+    this.volumes[channel] = Math.min(1, Math.max(0, volume));
+    this.applyVolumes();
+  }
+
+  getVolume(channel: AudioChannel): number {
+    return this.volumes[channel];
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    if (muted) {
+      [...this.voices].forEach((voice) => this.stopVoice(voice));
+    }
+    this.applyVolumes();
+  }
+
+  toggleMute(): boolean {
+    this.setMuted(!this.muted);
+    return this.muted;
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  private applyVolumes() {
+    if (!this.buses) return;
+    this.buses.master.gain.value = this.muted ? 0 : this.volumes.master;
+    this.buses.sfx.gain.value = this.volumes.sfx;
+    this.buses.music.gain.value = this.volumes.music;
+  }
+}
+
+export { AudioManager };
+export type { AudioChannel, SoundDefinition, PlayOptions };
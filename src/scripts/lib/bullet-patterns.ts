@@ -0,0 +1,97 @@
+// Angles are in degrees, measured clockwise from straight down (canvas y grows
+// downward), so 0 fires at the bottom of the screen and 90 fires to the left.
+interface BulletModifiers {
+  speed: number; // Pixels per second
+  delay?: number; // Milliseconds the bullet hangs in place before moving
+  acceleration?: number; // Pixels per second squared along the direction of travel
+  maxSpeed?: number; // Cap for accelerating bullets
+  color?: string;
+}
+
+type BulletPattern =
+  | ({ kind: "aimed"; count?: number; arc?: number } & BulletModifiers) // At the target, optionally as a spread
+  | ({ kind: "spread"; count: number; arc: number; angle?: number } & BulletModifiers) // Fixed fan around `angle`
+  | ({ kind: "ring"; count: number; angle?: number } & BulletModifiers) // Evenly spaced full circle
+  | ({ kind: "spiral"; arms: number; step: number } & BulletModifiers); // Rotates `step` degrees per volley
+
+interface BulletSpec {
+  x: number;
+  y: number;
+  dirX: number; // Unit vector
+  dirY: number;
+  speed: number;
+  delay: number;
+  acceleration: number;
+  maxSpeed: number;
+  color: string;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Angles for `count` bullets evenly fanned across `arc` degrees around `center`
+function fan(center: number, count: number, arc: number): number[] {
+  if (count <= 1) return [center];
+  return Array.from({ length: count }, (_, i) => center - arc / 2 + (arc * i) / (count - 1));
+}
+
+// Turns pattern definitions into bullets. Keeps per-emitter state such as the
+// spiral's rotation, and cycles through a list of patterns volley by volley.
+class BulletEmitter {
+  private patterns: BulletPattern[];
+  private patternIndex: number = 0;
+  private spiralAngle: number = 0;
+
+  constructor(patterns: BulletPattern | BulletPattern[]) {
+    this.patterns = Array.isArray(patterns) ? patterns : [patterns];
+  }
+
+  fire(x: number, y: number, target: { x: number; y: number }): BulletSpec[] {
+    const pattern = this.patterns[this.patternIndex];
+    this.patternIndex = (this.patternIndex + 1) % this.patterns.length;
+
+    let angles: number[];
+    switch (pattern.kind) {
+      case "aimed": {
+        // atan2 with swapped arguments matches the clockwise-from-down convention
+        const aim = (Math.atan2(x - target.x, target.y - y) * 180) / Math.PI;
+        angles = fan(aim, pattern.count ?? 1, pattern.arc ?? 0);
+        break;
+      }
+      case "spread":
+        angles = fan(pattern.angle ?? 0, pattern.count, pattern.arc);
+        break;
+      case "ring":
+        angles = Array.from({ length: pattern.count }, (_, i) => (pattern.angle ?? 0) + (360 * i) / pattern.count);
+        break;
+      case "spiral":
+        angles = Array.from({ length: pattern.arms }, (_, i) => this.spiralAngle + (360 * i) / pattern.arms);
+        this.spiralAngle = (this.spiralAngle + pattern.step) % 360;
+        break;
+    }
+
+    return angles.map((angle) => {
+      const radians = toRadians(angle);
+      return {
+        x,
+        y,
+        dirX: -Math.sin(radians),
+        dirY: Math.cos(radians),
+        speed: pattern.speed,
+        delay: pattern.delay ?? 0,
+        acceleration: pattern.acceleration ?? 0,
+        maxSpeed: pattern.maxSpeed ?? Infinity,
+        color: pattern.color ?? "purple",
+      };
+    });
+  }
+
+  reset() {
+    this.patternIndex = 0;
+    this.spiralAngle = 0;
+  }
+}
+
+export { BulletEmitter };
+export type { BulletPattern, BulletSpec, BulletModifiers };
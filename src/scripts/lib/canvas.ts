@@ -0,0 +1,97 @@
+import type { Renderer } from "./renderer";
+
+// Canvas with a fixed logical resolution that games draw in. The element is
+// scaled with CSS to fit the viewport (or a given container), letterboxed so
+// the aspect ratio holds, and the backing store is sized in device pixels so
+// it stays sharp on HiDPI screens. Game code only ever sees logical coordinates.
+class Canvas implements Renderer {
+  public element: HTMLCanvasElement;
+  public ctx: CanvasRenderingContext2D;
+  public width: number; // Logical size
+  public height: number;
+  public onResize: (() => void) | null = null; // For pages that only redraw on input
+  private container: HTMLElement | null;
+  private boundFit = this.fit.bind(this);
+
+  // Without a container the canvas fills the viewport; pass one whose size
+  // doesn't depend on the canvas, or the two would just shrink-wrap each other
+  constructor(width: number = 800, height: number = 600, id: string = "canvas", container: HTMLElement | null = null) {
+    this.element = document.getElementById(id) as HTMLCanvasElement;
+    if (!this.element) throw new Error("Canvas element not found");
+    this.ctx = this.element.getContext("2d")!;
+    this.width = width;
+    this.height = height;
+    this.container = container;
+    this.element.style.display = "block"; // Inline canvases leave a gap under them
+    this.attach();
+  }
+
+  // Games sharing one element each attach while they own it; the last to
+  // attach sets the element's size and transform
+  attach() {
+    // Zooming changes devicePixelRatio and fires resize too
+    window.addEventListener("resize", this.boundFit);
+    this.fit();
+  }
+
+  detach() {
+    window.removeEventListener("resize", this.boundFit);
+  }
+
+  // Changes the logical resolution, e.g. once a level's size is known
+  resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.fit();
+  }
+
+  // Resizing the backing store wipes it and resets the context, so the
+  // scale transform is reapplied and the frame has to be redrawn
+  fit() {
+    const { width: availableWidth, height: availableHeight } = this.getAvailableSize();
+    const scale = Math.min(availableWidth / this.width, availableHeight / this.height);
+    const cssWidth = Math.max(1, Math.floor(this.width * scale));
+    const cssHeight = Math.max(1, Math.floor(this.height * scale));
+    const pixelRatio = window.devicePixelRatio || 1;
+
+    this.element.style.width = `${cssWidth}px`;
+    this.element.style.height = `${cssHeight}px`;
+    this.element.width = Math.round(cssWidth * pixelRatio);
+    this.element.height = Math.round(cssHeight * pixelRatio);
+    this.ctx.setTransform(this.element.width / this.width, 0, 0, this.element.height / this.height, 0, 0);
+    this.clear();
+    this.onResize?.();
+  }
+
+  // Client (CSS pixel) coordinates from a pointer event, in logical space
+  toLogical(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.element.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left) * (this.width / rect.width),
+      y: (clientY - rect.top) * (this.height / rect.height),
+    };
+  }
+
+  clear() {
+    this.ctx.fillStyle = "black";
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  fadeBackground() {
+    this.ctx.fillStyle = "rgba(0, 0, 0, 0.1)";
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  private getAvailableSize(): { width: number; height: number } {
+    if (!this.container) {
+      return { width: window.innerWidth, height: window.innerHeight };
+    }
+    const style = getComputedStyle(this.container);
+    return {
+      width: this.container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight),
+      height: this.container.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom),
+    };
+  }
+}
+
+export { Canvas };
@@ -0,0 +1,251 @@
+interface Aabb {
+  x: number; // Left edge
+  y: number; // Top edge
+  width: number;
+  height: number;
+}
+
+interface Circle {
+  kind: "circle";
+  x: number; // Centre
+  y: number;
+  radius: number;
+}
+
+// A line segment with thickness: a circle swept from (x1, y1) to (x2, y2)
+interface Capsule {
+  kind: "capsule";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  radius: number;
+}
+
+type Shape = Circle | Capsule | (Aabb & { kind: "aabb" });
+
+function circle(x: number, y: number, radius: number): Circle {
+  return { kind: "circle", x, y, radius };
+}
+
+function capsule(x1: number, y1: number, x2: number, y2: number, radius: number): Capsule {
+  return { kind: "capsule", x1, y1, x2, y2, radius };
+}
+
+function box(bounds: Aabb): Shape {
+  return { kind: "aabb", x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height };
+}
+
+// Swept tests: a shape moving from one position to another in a single step
+// becomes a capsule, so fast bullets and dashes can't tunnel through targets
+function sweptCircle(fromX: number, fromY: number, toX: number, toY: number, radius: number): Shape {
+  if (fromX === toX && fromY === toY) return circle(toX, toY, radius);
+  return capsule(fromX, fromY, toX, toY, radius);
+}
+
+function aabbOverlap(a: Aabb, b: Aabb): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+function pointInAabb(x: number, y: number, box: Aabb): boolean {
+  return x > box.x && x < box.x + box.width && y > box.y && y < box.y + box.height;
+}
+
+// Squared distance from a point to the segment (x1, y1)-(x2, y2)
+function pointSegmentDistanceSq(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  const cx = x1 + t * dx - px;
+  const cy = y1 + t * dy - py;
+  return cx * cx + cy * cy;
+}
+
+function pointAabbDistanceSq(px: number, py: number, b: Aabb): number {
+  const dx = Math.max(b.x - px, 0, px - (b.x + b.width));
+  const dy = Math.max(b.y - py, 0, py - (b.y + b.height));
+  return dx * dx + dy * dy;
+}
+
+function segmentsIntersect(
+  ax1: number, ay1: number, ax2: number, ay2: number,
+  bx1: number, by1: number, bx2: number, by2: number
+): boolean {
+  const cross = (ox: number, oy: number, px: number, py: number, qx: number, qy: number) =>
+    (px - ox) * (qy - oy) - (py - oy) * (qx - ox);
+  const d1 = cross(bx1, by1, bx2, by2, ax1, ay1);
+  const d2 = cross(bx1, by1, bx2, by2, ax2, ay2);
+  const d3 = cross(ax1, ay1, ax2, ay2, bx1, by1);
+  const d4 = cross(ax1, ay1, ax2, ay2, bx2, by2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function segmentSegmentDistanceSq(
+  ax1: number, ay1: number, ax2: number, ay2: number,
+  bx1: number, by1: number, bx2: number, by2: number
+): number {
+  if (segmentsIntersect(ax1, ay1, ax2, ay2, bx1, by1, bx2, by2)) return 0;
+  // Otherwise the closest pair always involves an endpoint
+  return Math.min(
+    pointSegmentDistanceSq(ax1, ay1, bx1, by1, bx2, by2),
+    pointSegmentDistanceSq(ax2, ay2, bx1, by1, bx2, by2),
+    pointSegmentDistanceSq(bx1, by1, ax1, ay1, ax2, ay2),
+    pointSegmentDistanceSq(bx2, by2, ax1, ay1, ax2, ay2)
+  );
+}
+
+function segmentAabbDistanceSq(x1: number, y1: number, x2: number, y2: number, b: Aabb): number {
+  if (pointInAabb(x1, y1, b) || pointInAabb(x2, y2, b)) return 0;
+  const right = b.x + b.width;
+  const bottom = b.y + b.height;
+  // Closest pair is a segment endpoint against the box, or a box edge against the segment
+  return Math.min(
+    pointAabbDistanceSq(x1, y1, b),
+    pointAabbDistanceSq(x2, y2, b),
+    segmentSegmentDistanceSq(x1, y1, x2, y2, b.x, b.y, right, b.y),
+    segmentSegmentDistanceSq(x1, y1, x2, y2, right, b.y, right, bottom),
+    segmentSegmentDistanceSq(x1, y1, x2, y2, right, bottom, b.x, bottom),
+    segmentSegmentDistanceSq(x1, y1, x2, y2, b.x, bottom, b.x, b.y)
+  );
+}
+
+// A circle is treated as a zero-length capsule, which keeps the table small
+function asSegment(shape: Circle | Capsule): [number, number, number, number] {
+  return shape.kind === "circle"
+    ? [shape.x, shape.y, shape.x, shape.y]
+    : [shape.x1, shape.y1, shape.x2, shape.y2];
+}
+
+function shapesOverlap(a: Shape, b: Shape): boolean {
+  if (a.kind === "aabb" && b.kind === "aabb") return aabbOverlap(a, b);
+  if (a.kind === "aabb") return shapesOverlap(b, a);
+
+  const [x1, y1, x2, y2] = asSegment(a);
+  if (b.kind === "aabb") {
+    return segmentAabbDistanceSq(x1, y1, x2, y2, b) <= a.radius * a.radius;
+  }
+  const [bx1, by1, bx2, by2] = asSegment(b);
+  const reach = a.radius + b.radius;
+  return segmentSegmentDistanceSq(x1, y1, x2, y2, bx1, by1, bx2, by2) <= reach * reach;
+}
+
+// Bounding box of any shape, e.g. for SpatialHash queries
+function shapeBounds(shape: Shape): Aabb {
+  if (shape.kind === "aabb") return shape;
+  const [x1, y1, x2, y2] = asSegment(shape);
+  return {
+    x: Math.min(x1, x2) - shape.radius,
+    y: Math.min(y1, y2) - shape.radius,
+    width: Math.abs(x2 - x1) + shape.radius * 2,
+    height: Math.abs(y2 - y1) + shape.radius * 2,
+  };
+}
+
+// Cell coordinates are packed into one number; exact for ±32768 cells each way
+const CELL_OFFSET = 32768;
+
+function cellKey(cellX: number, cellY: number): number {
+  return (cellX + CELL_OFFSET) * 65536 + (cellY + CELL_OFFSET);
+}
+
+// Uniform-grid broad phase. Rebuild it every step: clear(), insert() whatever
+// moved, then query() with a box to get the few items worth a precise test.
+// Buckets are kept between clears so a steady scene allocates nothing.
+class SpatialHash<T> {
+  private cellSize: number;
+  private buckets: Map<number, T[]> = new Map();
+  private usedBuckets: T[][] = [];
+  private seen: Set<T> = new Set(); // Items spanning several cells are reported once
+  private results: T[] = [];
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  clear() {
+    this.usedBuckets.forEach((bucket) => (bucket.length = 0));
+    this.usedBuckets.length = 0;
+  }
+
+  insert(item: T, bounds: Aabb) {
+    this.forEachCell(bounds, (key) => {
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = [];
+        this.buckets.set(key, bucket);
+      }
+      if (bucket.length === 0) this.usedBuckets.push(bucket);
+      bucket.push(item);
+    });
+  }
+
+  // The returned array is reused by the next query, so copy it to keep it
+  query(bounds: Aabb): readonly T[] {
+    this.results.length = 0;
+    this.seen.clear();
+    this.forEachCell(bounds, (key) => {
+      const bucket = this.buckets.get(key);
+      if (!bucket) return;
+      for (const item of bucket) {
+        if (!this.seen.has(item)) {
+          this.seen.add(item);
+          this.results.push(item);
+        }
+      }
+    });
+    return this.results;
+  }
+
+  get occupiedCells(): number {
+    return this.usedBuckets.length;
+  }
+
+  private forEachCell(bounds: Aabb, callback: (key: number) => void) {
+    const minX = Math.floor(bounds.x / this.cellSize);
+    const minY = Math.floor(bounds.y / this.cellSize);
+    const maxX = Math.floor((bounds.x + bounds.width) / this.cellSize);
+    const maxY = Math.floor((bounds.y + bounds.height) / this.cellSize);
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellY = minY; cellY <= maxY; cellY++) {
+        callback(cellKey(cellX, cellY));
+      }
+    }
+  }
+}
+
+// Counters for one collision pass, for the stress overlay
+class CollisionStats {
+  public candidates: number = 0; // Pairs the broad phase let through
+  public bruteForcePairs: number = 0; // Pairs a naive all-against-all pass would test
+  public hits: number = 0;
+  public time: number = 0; // Milliseconds
+  public averageTime: number = 0; // Smoothed over recent passes
+  private startTime: number = 0;
+
+  begin() {
+    this.candidates = 0;
+    this.bruteForcePairs = 0;
+    this.hits = 0;
+    this.startTime = performance.now();
+  }
+
+  end() {
+    this.time = performance.now() - this.startTime;
+    this.averageTime += (this.time - this.averageTime) * 0.05;
+  }
+}
+
+export {
+  SpatialHash,
+  CollisionStats,
+  aabbOverlap,
+  pointInAabb,
+  shapesOverlap,
+  shapeBounds,
+  circle,
+  capsule,
+  box,
+  sweptCircle,
+};
+export type { Aabb, Circle, Capsule, Shape };
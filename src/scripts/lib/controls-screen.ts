@@ -0,0 +1,162 @@
+import { bindingId, describeBinding, readGamepads } from "./input";
+import type { InputBinding, InputManager } from "./input";
+import type { Renderer } from "./renderer";
+
+// Canvas menu for rebinding a game's actions. Like NameEntry it listens in the
+// capture phase while open and swallows every key, so the keys pressed here
+// never reach the game. Choosing a row waits for the next key or gamepad
+// input, which replaces that action's first binding on the same device.
+class ControlsScreen<Action extends string> {
+  private input: InputManager<Action>;
+  private labels: { [action in Action]: string };
+  private actions: Action[];
+  private selected: number = 0; // One past the last action is "Reset to defaults"
+  private capturing: boolean = false;
+  private heldGamepad: Set<string> = new Set(); // Held when capture began; ignored until released
+  private target: Window | null = null;
+  private boundKeyDown = this.handleKeyDown.bind(this);
+
+  constructor(input: InputManager<Action>, labels: { [action in Action]: string }) {
+    this.input = input;
+    this.labels = labels;
+    this.actions = Object.keys(labels) as Action[];
+  }
+
+  get isOpen(): boolean {
+    return this.target !== null;
+  }
+
+  get isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  open(target: Window = window) {
+    if (this.target) return;
+    this.target = target;
+    this.selected = 0;
+    this.capturing = false;
+    target.addEventListener("keydown", this.boundKeyDown, true);
+  }
+
+  close() {
+    if (!this.target) return;
+    this.target.removeEventListener("keydown", this.boundKeyDown, true);
+    this.target = null;
+    this.capturing = false;
+  }
+
+  // Call once per frame while open instead of the InputManager's poll
+  poll() {
+    if (!this.capturing) return;
+    const held = readGamepads();
+    const pressed = held.find((binding) => !this.heldGamepad.has(bindingId(binding)));
+    if (pressed) {
+      this.capture(pressed);
+    } else {
+      this.heldGamepad = new Set(held.map(bindingId));
+    }
+  }
+
+  draw(renderer: Renderer) {
+    const ctx = renderer.ctx;
+    const bindings = this.input.getBindings();
+    const rowHeight = 24;
+    const top = renderer.height / 2 - ((this.actions.length + 1) * rowHeight) / 2;
+    const left = renderer.width / 2 - 180;
+    const right = renderer.width / 2 + 180;
+
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
+    ctx.fillRect(0, 0, renderer.width, renderer.height);
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "center";
+    ctx.fillStyle = "white";
+    ctx.font = "bold 28px Arial";
+    ctx.fillText("Controls", renderer.width / 2, top - 50);
+
+    ctx.font = "14px Arial";
+    this.actions.forEach((action, index) => {
+      const y = top + index * rowHeight;
+      const current = index === this.selected;
+      ctx.fillStyle = current ? "yellow" : "white";
+      ctx.textAlign = "left";
+      ctx.fillText(`${current ? "> " : ""}${this.labels[action]}`, left, y);
+      ctx.textAlign = "right";
+      const value = current && this.capturing
+        ? "Press a key or button..."
+        : bindings[action].map(describeBinding).join(", ") || "Unbound";
+      ctx.fillText(value, right, y);
+    });
+
+    const resetSelected = this.selected === this.actions.length;
+    ctx.fillStyle = resetSelected ? "yellow" : "white";
+    ctx.textAlign = "left";
+    ctx.fillText(`${resetSelected ? "> " : ""}Reset to defaults`, left, top + this.actions.length * rowHeight);
+
+    ctx.fillStyle = "lightgray";
+    ctx.textAlign = "center";
+    ctx.fillText(
+      this.capturing
+        ? "Esc to cancel"
+        : "Up/Down to choose, Enter to rebind, Delete to clear a key, Esc to go back",
+      renderer.width / 2,
+      top + (this.actions.length + 2) * rowHeight
+    );
+    ctx.restore();
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.repeat) return;
+
+    if (this.capturing) {
+      if (event.key === "Escape") {
+        this.capturing = false;
+      } else {
+        this.capture({ device: "keyboard", code: event.code });
+      }
+      return;
+    }
+
+    const action = this.actions[this.selected] as Action | undefined; // Undefined on the reset row
+    switch (event.key) {
+      case "ArrowUp":
+        this.selected = (this.selected + this.actions.length) % (this.actions.length + 1);
+        break;
+      case "ArrowDown":
+        this.selected = (this.selected + 1) % (this.actions.length + 1);
+        break;
+      case "Enter":
+        if (action === undefined) {
+          this.input.resetBindings();
+        } else {
+          this.capturing = true;
+          this.heldGamepad = new Set(readGamepads().map(bindingId));
+        }
+        break;
+      case "Backspace":
+      case "Delete":
+        if (action !== undefined) {
+          const index = this.input.getBindings()[action].findIndex((binding) => binding.device === "keyboard");
+          if (index >= 0) this.input.unbind(action, index);
+        }
+        break;
+      case "Escape":
+        this.close();
+        break;
+    }
+  }
+
+  private capture(binding: InputBinding) {
+    const action = this.actions[this.selected];
+    const list = this.input.getBindings()[action];
+    this.capturing = false;
+    if (list.some((b) => bindingId(b) === bindingId(binding))) return; // Already bound here
+
+    const index = list.findIndex((b) => b.device === binding.device);
+    this.input.rebind(action, binding, index >= 0 ? index : undefined);
+  }
+}
+
+export { ControlsScreen };
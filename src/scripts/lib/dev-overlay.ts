@@ -0,0 +1,234 @@
+import { getLogEntries, getLogLevel, logLevels, setLogLevel } from "./log";
+import type { LogEntry, LogLevel, LogThreshold } from "./log";
+import type { Renderer } from "./renderer";
+import type { Shape } from "./collision";
+
+// Label -> value lines under the frame graph, e.g. entity counts
+interface OverlayStats {
+  [label: string]: number | string;
+}
+
+const levelColors: { [level in LogLevel]: string } = {
+  debug: "gray",
+  info: "white",
+  warn: "yellow",
+  error: "tomato",
+};
+
+const thresholds: readonly LogThreshold[] = [...logLevels, "silent"];
+
+// Developer overlay, toggled with the backtick key: FPS and a frame-time
+// graph, whatever counts the game passes in, and a log panel. While it is
+// open PageUp/PageDown or the wheel scroll the log, 1-9 hide or show a
+// category, minus changes the lowest level shown and 0 cycles the global
+// log level. Games also check `visible` to add their own debug drawing.
+class DevOverlay {
+  public visible: boolean = false;
+  public onChange: (() => void) | null = null; // For games that only redraw while running
+  private frameTimes: number[] = []; // Milliseconds, oldest first
+  private historyLength: number = 120;
+  private scroll: number = 0; // Lines scrolled back from the newest
+  private minLevel: LogLevel = "debug"; // Panel filter; the global level decides what is kept at all
+  private hiddenCategories: Set<string> = new Set();
+  private lineHeight: number = 14;
+  private panelLines: number = 12;
+  private target: Window | null = null;
+  private boundKeyDown = this.handleKeyDown.bind(this);
+  private boundWheel = this.handleWheel.bind(this);
+
+  attach(target: Window = window) {
+    if (this.target) return;
+    this.target = target;
+    target.addEventListener("keydown", this.boundKeyDown);
+    target.addEventListener("wheel", this.boundWheel);
+  }
+
+  detach() {
+    if (!this.target) return;
+    this.target.removeEventListener("keydown", this.boundKeyDown);
+    this.target.removeEventListener("wheel", this.boundWheel);
+    this.target = null;
+  }
+
+  toggle() {
+    this.visible = !this.visible;
+    this.scroll = 0;
+    this.onChange?.();
+  }
+
+  // Call once per rendered frame with the time since the previous one
+  recordFrame(frameTime: number) {
+    this.frameTimes.push(frameTime);
+    if (this.frameTimes.length > this.historyLength) this.frameTimes.shift();
+  }
+
+  draw(renderer: Renderer, stats: OverlayStats = {}) {
+    if (!this.visible) return;
+    const { ctx, width, height } = renderer;
+    ctx.save();
+    ctx.font = "11px monospace";
+    ctx.textBaseline = "top";
+    ctx.textAlign = "left";
+    this.drawStats(ctx, width, stats);
+    this.drawLogPanel(ctx, width, height);
+    ctx.restore();
+  }
+
+  private drawStats(ctx: CanvasRenderingContext2D, width: number, stats: OverlayStats) {
+    const average = this.frameTimes.reduce((sum, time) => sum + time, 0) / Math.max(1, this.frameTimes.length);
+    const worst = Math.max(0, ...this.frameTimes);
+    const lines = [
+      `${average > 0 ? Math.round(1000 / average) : 0} fps  ${average.toFixed(1)}ms avg  ${worst.toFixed(1)}ms worst`,
+      ...Object.entries(stats).map(([label, value]) => `${label}: ${value}`),
+    ];
+    const graphHeight = 40;
+    const panelHeight = graphHeight + 8 + lines.length * this.lineHeight + 8;
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.75)";
+    ctx.fillRect(0, 0, width, panelHeight);
+
+    // One bar per frame, scaled so 33ms (30 fps) fills the graph
+    const scale = graphHeight / (1000 / 30);
+    const barWidth = width / this.historyLength;
+    this.frameTimes.forEach((time, index) => {
+      ctx.fillStyle = time > 1000 / 55 ? "tomato" : "lime";
+      const barHeight = Math.min(graphHeight, time * scale);
+      ctx.fillRect(index * barWidth, 4 + graphHeight - barHeight, Math.max(1, barWidth - 1), barHeight);
+    });
+    ctx.fillStyle = "rgba(255, 255, 255, 0.5)";
+    ctx.fillRect(0, 4 + graphHeight - (1000 / 60) * scale, width, 1); // The 60 fps budget
+
+    ctx.fillStyle = "white";
+    lines.forEach((line, index) => ctx.fillText(line, 6, graphHeight + 10 + index * this.lineHeight));
+  }
+
+  private drawLogPanel(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    const categories = this.getCategories();
+    const entries = this.getVisibleEntries();
+    const maxScroll = Math.max(0, entries.length - this.panelLines);
+    this.scroll = Math.min(this.scroll, maxScroll);
+    const end = entries.length - this.scroll;
+    const shown = entries.slice(Math.max(0, end - this.panelLines), end);
+    const panelHeight = (this.panelLines + 2) * this.lineHeight + 8;
+    const top = height - panelHeight;
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.75)";
+    ctx.fillRect(0, top, width, panelHeight);
+
+    ctx.fillStyle = "cyan";
+    ctx.fillText(
+      `log ${getLogLevel()} [0]  showing ${this.minLevel}+ [-]  ${this.scroll > 0 ? `${this.scroll} back` : "latest"}`,
+      6,
+      top + 4
+    );
+    let x = 6;
+    categories.slice(0, 9).forEach((category, index) => {
+      const label = `${index + 1}:${category}`;
+      ctx.fillStyle = this.hiddenCategories.has(category) ? "dimgray" : "cyan";
+      ctx.fillText(label, x, top + 4 + this.lineHeight);
+      x += ctx.measureText(label).width + 10;
+    });
+
+    shown.forEach((entry, index) => {
+      ctx.fillStyle = levelColors[entry.level];
+      ctx.fillText(
+        `${(entry.time / 1000).toFixed(2).padStart(8)} ${entry.category}: ${entry.message}`,
+        6,
+        top + 4 + (index + 2) * this.lineHeight
+      );
+    });
+  }
+
+  private getCategories(): string[] {
+    return Array.from(new Set(getLogEntries().map((entry) => entry.category))).sort();
+  }
+
+  private getVisibleEntries(): LogEntry[] {
+    const minSeverity = logLevels.indexOf(this.minLevel);
+    return getLogEntries().filter(
+      (entry) => logLevels.indexOf(entry.level) >= minSeverity && !this.hiddenCategories.has(entry.category)
+    );
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    if (event.code === "Backquote") {
+      event.preventDefault();
+      this.toggle();
+      return;
+    }
+    if (!this.visible) return;
+
+    const digit = /^Digit(\d)$/.exec(event.code);
+    if (event.code === "PageUp") {
+      this.scroll += this.panelLines;
+    } else if (event.code === "PageDown") {
+      this.scroll = Math.max(0, this.scroll - this.panelLines);
+    } else if (event.code === "Minus") {
+      this.minLevel = logLevels[(logLevels.indexOf(this.minLevel) + 1) % logLevels.length];
+    } else if (digit && digit[1] === "0") {
+      setLogLevel(thresholds[(thresholds.indexOf(getLogLevel()) + 1) % thresholds.length]);
+    } else if (digit) {
+      const category = this.getCategories()[Number(digit[1]) - 1];
+      if (!category) return;
+      if (!this.hiddenCategories.delete(category)) this.hiddenCategories.add(category);
+    } else {
+      return;
+    }
+    event.preventDefault();
+    this.onChange?.();
+  }
+
+  private handleWheel(event: WheelEvent) {
+    if (!this.visible) return;
+    this.scroll = Math.max(0, this.scroll - Math.sign(event.deltaY) * 3);
+    this.onChange?.();
+  }
+}
+
+// Outlines a collision shape, for hitbox debug drawing
+function drawShape(ctx: CanvasRenderingContext2D, shape: Shape, color: string = "lime") {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  if (shape.kind === "aabb") {
+    ctx.rect(shape.x, shape.y, shape.width, shape.height);
+  } else if (shape.kind === "circle") {
+    ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI * 2);
+  } else {
+    // Both end caps plus the two sides between them
+    const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+    ctx.arc(shape.x1, shape.y1, shape.radius, angle + Math.PI / 2, angle - Math.PI / 2);
+    ctx.arc(shape.x2, shape.y2, shape.radius, angle - Math.PI / 2, angle + Math.PI / 2);
+    ctx.closePath();
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Cell boundaries of a uniform grid such as a SpatialHash
+function drawGridLines(
+  ctx: CanvasRenderingContext2D,
+  cellSize: number,
+  width: number,
+  height: number,
+  color: string = "rgba(0, 255, 255, 0.2)"
+) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = cellSize; x < width; x += cellSize) {
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+  }
+  for (let y = cellSize; y < height; y += cellSize) {
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+export { DevOverlay, drawShape, drawGridLines };
+export type { OverlayStats };
@@ -0,0 +1,48 @@
+// Runs the simulation in fixed-size steps regardless of the display refresh
+// rate; the leftover fraction of a step is returned for interpolated drawing.
+class FixedTimestep {
+  public readonly step: number; // Seconds per simulation step
+  private maxStepsPerFrame: number;
+  private accumulator: number = 0;
+  private tick: number = 0;
+
+  constructor(stepsPerSecond: number = 60, maxStepsPerFrame: number = 5) {
+    this.step = 1 / stepsPerSecond;
+    this.maxStepsPerFrame = maxStepsPerFrame;
+  }
+
+  get ticks(): number {
+    return this.tick;
+  }
+
+  advance(frameTime: number, update: (step: number, tick: number) => void): number {
+    this.accumulator += frameTime;
+
+    let steps = 0;
+    while (this.accumulator >= this.step) {
+      if (steps >= this.maxStepsPerFrame) {
+        // Too far behind (e.g. the tab was in the background): drop the backlog
+        this.accumulator = 0;
+        break;
+      }
+      update(this.step, this.tick);
+      this.tick++;
+      this.accumulator -= this.step;
+      steps++;
+    }
+
+    return this.accumulator / this.step;
+  }
+
+  reset() {
+    this.accumulator = 0;
+    this.tick = 0;
+  }
+}
+
+// Blends the previous and current simulation state for drawing between steps
+function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha;
+}
+
+export { FixedTimestep, lerp };
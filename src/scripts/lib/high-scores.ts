@@ -0,0 +1,189 @@
+import { Log } from "./log";
+
+const log = new Log("high-scores");
+
+const gameIds = ["shooter", "bomb-grid"] as const;
+
+type GameId = (typeof gameIds)[number];
+
+interface HighScoreEntry {
+  game: GameId;
+  name: string;
+  score: number;
+  time: number; // Milliseconds survived (shooter) or taken to clear the grid (bomb-grid)
+  date: string; // ISO timestamp
+  seed: number | null;
+  difficulty: string;
+}
+
+interface HighScoreData {
+  version: number;
+  lastName: string;
+  entries: HighScoreEntry[];
+}
+
+const STORAGE_KEY = "canvas-games-high-scores";
+const CURRENT_VERSION = 1;
+const MAX_ENTRIES_PER_TABLE = 50; // Per game and difficulty
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return !!value && typeof value === "object";
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Storage is user-editable, so every entry is checked before the scores page sees it
+function isHighScoreEntry(value: unknown): value is HighScoreEntry {
+  if (!isObject(value)) return false;
+  return (
+    (gameIds as readonly unknown[]).includes(value.game) &&
+    typeof value.name === "string" &&
+    isFiniteNumber(value.score) &&
+    isFiniteNumber(value.time) &&
+    typeof value.date === "string" &&
+    !Number.isNaN(Date.parse(value.date)) &&
+    (value.seed === null || isFiniteNumber(value.seed)) &&
+    typeof value.difficulty === "string"
+  );
+}
+
+// Each migration upgrades data from the version it is keyed by to the next one.
+// Version 0 is anything saved before the schema was versioned: a bare array.
+const migrations: { [fromVersion: number]: (data: unknown) => unknown } = {
+  0: (data) => ({
+    version: 1,
+    lastName: "",
+    entries: (Array.isArray(data) ? data : []).filter(isObject).map((entry) => ({
+      game: entry.game ?? "shooter",
+      name: String(entry.name ?? "???"),
+      score: Number(entry.score) || 0,
+      time: Number(entry.time) || 0,
+      date: entry.date ?? new Date(0).toISOString(),
+      seed: entry.seed ?? null,
+      difficulty: entry.difficulty ?? "normal",
+    })),
+  }),
+};
+
+function emptyData(): HighScoreData {
+  return { version: CURRENT_VERSION, lastName: "", entries: [] };
+}
+
+// "m:ss", the way the games and the scores page both show a run's time
+function formatTime(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+}
+
+// Higher score first, then the faster time
+function compareEntries(a: HighScoreEntry, b: HighScoreEntry): number {
+  return b.score - a.score || a.time - b.time;
+}
+
+class HighScoreStorage {
+  private data: HighScoreData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  private load(): HighScoreData {
+    if (typeof localStorage === "undefined") return emptyData(); // Node
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? this.migrate(JSON.parse(raw)) : emptyData();
+    } catch (e) {
+      log.warn("Discarding unreadable high scores:", e);
+      return emptyData();
+    }
+  }
+
+  private migrate(stored: unknown): HighScoreData {
+    let data = stored;
+    let version = Array.isArray(data) ? 0 : isObject(data) ? Number(data.version) : NaN;
+    if (!Number.isInteger(version) || version > CURRENT_VERSION) {
+      throw new Error(`Unsupported high score version: ${isObject(data) ? data.version : data}`);
+    }
+
+    while (version < CURRENT_VERSION) {
+      data = migrations[version](data);
+      version = isObject(data) ? Number(data.version) : NaN;
+    }
+    if (!isObject(data) || !Array.isArray(data.entries)) {
+      throw new Error("High score data has no entries");
+    }
+
+    const entries = data.entries.filter(isHighScoreEntry);
+    if (entries.length < data.entries.length) {
+      log.warn(`Dropped ${data.entries.length - entries.length} malformed high score entries`);
+    }
+    return {
+      version: CURRENT_VERSION,
+      lastName: typeof data.lastName === "string" ? data.lastName : "",
+      entries,
+    };
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (e) {
+      log.warn("Could not save high scores:", e);
+    }
+  }
+
+  getLastName(): string {
+    return this.data.lastName;
+  }
+
+  // A run qualifies if its table isn't full yet or it beats the lowest entry
+  qualifies(game: GameId, difficulty: string, score: number, time: number): boolean {
+    if (score <= 0) return false;
+    const table = this.getTop(game, difficulty, MAX_ENTRIES_PER_TABLE);
+    if (table.length < MAX_ENTRIES_PER_TABLE) return true;
+    const candidate = { score, time } as HighScoreEntry;
+    return compareEntries(candidate, table[table.length - 1]) < 0;
+  }
+
+  // Returns the 1-based rank of the new entry within its table
+  add(entry: Omit<HighScoreEntry, "date">): number {
+    const saved: HighScoreEntry = { ...entry, date: new Date().toISOString() };
+    this.data.entries.push(saved);
+    this.data.lastName = entry.name;
+
+    const table = this.getTop(entry.game, entry.difficulty, Infinity);
+    const dropped = new Set(table.slice(MAX_ENTRIES_PER_TABLE));
+    this.data.entries = this.data.entries.filter((e) => !dropped.has(e));
+    this.save();
+
+    return table.indexOf(saved) + 1;
+  }
+
+  getTop(game?: GameId, difficulty?: string, limit: number = 10): HighScoreEntry[] {
+    return this.data.entries
+      .filter((entry) => (!game || entry.game === game) && (!difficulty || entry.difficulty === difficulty))
+      .sort(compareEntries)
+      .slice(0, limit);
+  }
+
+  getDifficulties(game?: GameId): string[] {
+    const difficulties = this.data.entries
+      .filter((entry) => !game || entry.game === game)
+      .map((entry) => entry.difficulty);
+    return Array.from(new Set(difficulties)).sort();
+  }
+
+  clear(game?: GameId) {
+    this.data.entries = game ? this.data.entries.filter((entry) => entry.game !== game) : [];
+    this.save();
+  }
+
+  export(): string {
+    return JSON.stringify(this.data, null, 2);
+  }
+}
+
+export { HighScoreStorage, formatTime };
+export type { GameId, HighScoreEntry };
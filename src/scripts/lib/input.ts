@@ -0,0 +1,226 @@
+import { Log } from "./log";
+
+const log = new Log("input");
+
+type InputBinding =
+  | { device: "keyboard"; code: string } // KeyboardEvent.code, so layouts don't matter
+  | { device: "gamepad"; button: number } // Standard mapping: 12-15 is the d-pad
+  | { device: "gamepad"; axis: number; direction: -1 | 1 };
+
+type Bindings<Action extends string> = { [action in Action]: InputBinding[] };
+
+type ActionListener<Action extends string> = (action: Action, pressed: boolean) => void;
+
+interface StoredBindings {
+  version: number;
+  bindings: { [action: string]: InputBinding[] };
+}
+
+const BINDINGS_VERSION = 1;
+const AXIS_THRESHOLD = 0.5;
+
+function bindingId(binding: InputBinding): string {
+  if (binding.device === "keyboard") return `key:${binding.code}`;
+  if ("button" in binding) return `button:${binding.button}`;
+  return `axis:${binding.axis}:${binding.direction}`;
+}
+
+// Short label for menus: "M", "Space", "Button 0", "Axis 1-"
+function describeBinding(binding: InputBinding): string {
+  if (binding.device === "keyboard") return binding.code.replace(/^(Key|Digit)/, "");
+  if ("button" in binding) return `Button ${binding.button}`;
+  return `Axis ${binding.axis}${binding.direction < 0 ? "-" : "+"}`;
+}
+
+// Every gamepad button and stick direction held right now, across all pads
+function readGamepads(): InputBinding[] {
+  const gamepads = typeof navigator !== "undefined" && navigator.getGamepads ? navigator.getGamepads() : [];
+  const held: InputBinding[] = [];
+
+  for (const gamepad of gamepads) {
+    if (!gamepad) continue;
+    gamepad.buttons.forEach((button, index) => {
+      if (button.pressed) held.push({ device: "gamepad", button: index });
+    });
+    gamepad.axes.forEach((value, index) => {
+      if (value <= -AXIS_THRESHOLD) held.push({ device: "gamepad", axis: index, direction: -1 });
+      if (value >= AXIS_THRESHOLD) held.push({ device: "gamepad", axis: index, direction: 1 });
+    });
+  }
+  return held;
+}
+
+function isValidBinding(value: unknown): value is InputBinding {
+  if (!value || typeof value !== "object") return false;
+  const binding = value as { [key: string]: unknown };
+  if (binding.device === "keyboard") return typeof binding.code === "string";
+  if (binding.device !== "gamepad") return false;
+  if (typeof binding.button === "number") return true;
+  return typeof binding.axis === "number" && (binding.direction === -1 || binding.direction === 1);
+}
+
+// Maps keyboard keys and gamepad buttons/sticks onto logical game actions.
+// Listeners only hear press/release transitions, so held keys and
+// auto-repeat never produce duplicate presses.
+class InputManager<Action extends string> {
+  private defaults: Bindings<Action>;
+  private bindings: Bindings<Action>;
+  private storageKey: string;
+  private pressed: Set<string> = new Set(); // Binding ids currently held
+  private actionState: Map<Action, boolean> = new Map();
+  private listeners: ActionListener<Action>[] = [];
+  private target: Window | null = null;
+  private boundKeyDown = this.handleKeyDown.bind(this);
+  private boundKeyUp = this.handleKeyUp.bind(this);
+  private boundBlur = this.releaseAll.bind(this);
+
+  constructor(defaults: Bindings<Action>, storageKey: string) {
+    this.defaults = defaults;
+    this.storageKey = storageKey;
+    this.bindings = this.loadBindings();
+  }
+
+  attach(target: Window = window) {
+    if (this.target) return;
+    this.target = target;
+    target.addEventListener("keydown", this.boundKeyDown);
+    target.addEventListener("keyup", this.boundKeyUp);
+    target.addEventListener("blur", this.boundBlur);
+  }
+
+  detach() {
+    if (!this.target) return;
+    this.target.removeEventListener("keydown", this.boundKeyDown);
+    this.target.removeEventListener("keyup", this.boundKeyUp);
+    this.target.removeEventListener("blur", this.boundBlur);
+    this.target = null;
+    this.releaseAll();
+  }
+
+  onAction(listener: ActionListener<Action>): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  isDown(action: Action): boolean {
+    return this.actionState.get(action) ?? false;
+  }
+
+  // Gamepads have no events for button state, so call this once per frame
+  poll() {
+    const held = new Set(readGamepads().map(bindingId));
+
+    for (const id of Array.from(this.pressed)) {
+      if (!id.startsWith("key:") && !held.has(id)) this.setBinding(id, false);
+    }
+    held.forEach((id) => this.setBinding(id, true));
+  }
+
+  getBindings(): Bindings<Action> {
+    return JSON.parse(JSON.stringify(this.bindings));
+  }
+
+  // Replaces the binding at `index`, or adds one when index is omitted
+  rebind(action: Action, binding: InputBinding, index?: number) {
+    const id = bindingId(binding);
+    // A physical input drives a single action, so steal it from any other
+    for (const other of Object.keys(this.bindings) as Action[]) {
+      this.bindings[other] = this.bindings[other].filter((b) => bindingId(b) !== id);
+    }
+
+    const list = this.bindings[action];
+    if (index === undefined || index >= list.length) {
+      list.push(binding);
+    } else {
+      list[index] = binding;
+    }
+    this.releaseAll();
+    this.saveBindings();
+  }
+
+  unbind(action: Action, index: number) {
+    this.bindings[action].splice(index, 1);
+    this.releaseAll();
+    this.saveBindings();
+  }
+
+  resetBindings() {
+    this.bindings = JSON.parse(JSON.stringify(this.defaults));
+    this.releaseAll();
+    this.saveBindings();
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    const id = `key:${event.code}`;
+    if (this.findActions(id).length > 0) event.preventDefault();
+    if (!event.repeat) this.setBinding(id, true);
+  }
+
+  private handleKeyUp(event: KeyboardEvent) {
+    this.setBinding(`key:${event.code}`, false);
+  }
+
+  private setBinding(id: string, down: boolean) {
+    if (down === this.pressed.has(id)) return;
+    if (down) {
+      this.pressed.add(id);
+    } else {
+      this.pressed.delete(id);
+    }
+    this.findActions(id).forEach((action) => this.refreshAction(action));
+  }
+
+  private refreshAction(action: Action) {
+    const down = this.bindings[action].some((binding) => this.pressed.has(bindingId(binding)));
+    if (down === this.isDown(action)) return;
+    this.actionState.set(action, down);
+    this.listeners.forEach((listener) => listener(action, down));
+  }
+
+  private releaseAll() {
+    this.pressed.clear();
+    (Object.keys(this.bindings) as Action[]).forEach((action) => this.refreshAction(action));
+  }
+
+  private findActions(id: string): Action[] {
+    return (Object.keys(this.bindings) as Action[]).filter((action) =>
+      this.bindings[action].some((binding) => bindingId(binding) === id)
+    );
+  }
+
+  private loadBindings(): Bindings<Action> {
+    const bindings: Bindings<Action> = JSON.parse(JSON.stringify(this.defaults));
+    if (typeof localStorage === "undefined") return bindings; // Node
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return bindings;
+
+      const stored: StoredBindings = JSON.parse(raw);
+      if (stored.version !== BINDINGS_VERSION) return bindings;
+
+      for (const action of Object.keys(bindings) as Action[]) {
+        const list = stored.bindings[action];
+        if (Array.isArray(list) && list.every(isValidBinding)) {
+          bindings[action] = list;
+        }
+      }
+    } catch (e) {
+      log.warn("Ignoring unreadable input bindings:", e);
+    }
+    return bindings;
+  }
+
+  private saveBindings() {
+    const stored: StoredBindings = { version: BINDINGS_VERSION, bindings: this.bindings };
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (e) {
+      log.warn("Could not save input bindings:", e);
+    }
+  }
+}
+
+export { InputManager, bindingId, describeBinding, readGamepads };
+export type { InputBinding, Bindings, ActionListener };
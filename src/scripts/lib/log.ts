@@ -0,0 +1,91 @@
+type LogLevel = "debug" | "info" | "warn" | "error";
+type LogThreshold = LogLevel | "silent";
+
+interface LogEntry {
+  time: number; // performance.now() when logged
+  level: LogLevel;
+  category: string;
+  message: string;
+}
+
+const logLevels: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+const severity: { [level in LogThreshold]: number } = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+const maxEntries = 500;
+
+// One log shared by every game on the page. Entries below the global level
+// are dropped before they're stored or printed, though callers have already
+// built the message by then. Production builds and test runs start silent.
+let threshold: LogThreshold = import.meta.env.PROD || import.meta.env.MODE === "test" ? "silent" : "info";
+let entries: LogEntry[] = [];
+
+function setLogLevel(level: LogThreshold) {
+  threshold = level;
+}
+
+function getLogLevel(): LogThreshold {
+  return threshold;
+}
+
+// Oldest first; at most the last 500
+function getLogEntries(): readonly LogEntry[] {
+  return entries;
+}
+
+function clearLog() {
+  entries = [];
+}
+
+function isLogged(level: LogLevel): boolean {
+  return severity[level] >= severity[threshold];
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.message;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// A named source of log messages, e.g. one per game or library. The extra
+// arguments go to the console as they are and are stringified for the overlay.
+class Log {
+  public readonly category: string;
+
+  constructor(category: string) {
+    this.category = category;
+  }
+
+  debug(message: string, ...data: unknown[]) {
+    this.write("debug", message, data);
+  }
+
+  info(message: string, ...data: unknown[]) {
+    this.write("info", message, data);
+  }
+
+  warn(message: string, ...data: unknown[]) {
+    this.write("warn", message, data);
+  }
+
+  error(message: string, ...data: unknown[]) {
+    this.write("error", message, data);
+  }
+
+  private write(level: LogLevel, message: string, data: unknown[]) {
+    if (!isLogged(level)) return;
+    entries.push({
+      time: performance.now(),
+      level,
+      category: this.category,
+      message: [message, ...data.map(formatValue)].join(" "),
+    });
+    if (entries.length > maxEntries) entries.shift();
+    console[level](`[${this.category}] ${message}`, ...data);
+  }
+}
+
+export { Log, logLevels, setLogLevel, getLogLevel, getLogEntries, clearLog, isLogged };
+export type { LogLevel, LogThreshold, LogEntry };
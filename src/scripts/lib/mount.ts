@@ -0,0 +1,31 @@
+interface Mountable {
+  destroy(): void;
+}
+
+// Starts a page's game and tears it down when the page goes away. With Astro
+// view transitions a page script only runs once per session and the DOM is
+// swapped under it, so the game follows the router's events instead:
+// astro:before-swap destroys it before its canvas disappears, and
+// astro:page-load builds a fresh one whenever this page is shown again.
+// `name` must match a data-game attribute on the page's canvas, since
+// page-load fires for every page the router visits. Without view transitions
+// the events never fire and a normal page unload does the cleanup.
+function mountGame(name: string, create: () => Mountable) {
+  let game: Mountable | null = null;
+
+  const unmount = () => {
+    game?.destroy();
+    game = null;
+  };
+  const mount = () => {
+    if (game || !document.querySelector(`canvas[data-game="${name}"]`)) return;
+    game = create();
+  };
+
+  mount();
+  document.addEventListener("astro:page-load", mount);
+  document.addEventListener("astro:before-swap", unmount);
+}
+
+export { mountGame };
+export type { Mountable };
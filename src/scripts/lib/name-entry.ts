@@ -0,0 +1,61 @@
+// Canvas text field for typing a high-score name. While open it listens in the
+// capture phase and swallows every key, so typed letters never reach game
+// bindings (M to mute, Space to shoot, ...).
+class NameEntry {
+  public value: string = "";
+  private maxLength: number;
+  private active: boolean = false;
+  private onSubmit: (name: string) => void;
+  private boundKeyDown = this.handleKeyDown.bind(this);
+
+  constructor(onSubmit: (name: string) => void, maxLength: number = 12) {
+    this.onSubmit = onSubmit;
+    this.maxLength = maxLength;
+  }
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  open(initialValue: string = "") {
+    this.value = initialValue.slice(0, this.maxLength);
+    if (!this.active) {
+      this.active = true;
+      window.addEventListener("keydown", this.boundKeyDown, true);
+    }
+  }
+
+  close() {
+    if (!this.active) return;
+    this.active = false;
+    window.removeEventListener("keydown", this.boundKeyDown, true);
+  }
+
+  // Also called directly for touch players, who have no keyboard
+  submit() {
+    if (!this.active) return;
+    const name = this.value.trim() || "Player";
+    this.close();
+    this.onSubmit(name);
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.key === "Enter") {
+      this.submit();
+    } else if (event.key === "Backspace") {
+      this.value = this.value.slice(0, -1);
+    } else if (event.key.length === 1 && this.value.length < this.maxLength) {
+      this.value += event.key;
+    }
+  }
+
+  // Blinking caret follows the text
+  getDisplayText(time: number): string {
+    return this.value + (Math.floor(time / 500) % 2 === 0 ? "_" : " ");
+  }
+}
+
+export { NameEntry };
@@ -0,0 +1,194 @@
+import { Random } from "./random";
+import { lerp } from "./fixed-timestep";
+
+type Rgb = [number, number, number];
+type Range = number | [number, number]; // Fixed value or a [min, max] roll per particle
+
+interface EmitterConfig {
+  count: number; // Particles per emit() call
+  speed: Range; // Pixels per second
+  angle?: Range; // Degrees, 0 points right and 90 points down; defaults to every direction
+  life: Range; // Milliseconds
+  gravity?: number; // Pixels per second squared, positive pulls down
+  drag?: number; // Fraction of velocity lost per second
+  windFollow?: number; // Rate per second at which vx eases toward the wind given to update()
+  color: Rgb | [Rgb, Rgb]; // Constant, or start and end colours blended over life
+  alpha?: [number, number]; // Start and end opacity, defaults to fading out
+  size: Range; // Radius (circle), side (square) or line width (streak)
+  sizeOverLife?: boolean; // Treat a [a, b] size as start and end of life instead of a random range
+  shape?: "circle" | "square" | "streak"; // Streaks are drawn along the velocity
+  streakTime?: number; // Seconds of travel a streak covers, defaults to 0.03
+  blend?: GlobalCompositeOperation; // "lighter" makes overlapping sparks glow
+  area?: { width: number; height: number }; // Spawn anywhere in this box, anchored at the position
+  floor?: number; // Particles die early once they fall below this y
+}
+
+interface Particle {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  age: number;
+  life: number;
+  startSize: number;
+  endSize: number;
+  config: EmitterConfig;
+}
+
+function roll(rng: Random, range: Range): number {
+  return Array.isArray(range) ? rng.range(range[0], range[1]) : range;
+}
+
+function isGradient(color: EmitterConfig["color"]): color is [Rgb, Rgb] {
+  return Array.isArray(color[0]);
+}
+
+// Fixed-capacity particle store. Particles live in one preallocated array:
+// the first `active` slots are alive and a dead particle is swapped with the
+// last live one, so nothing is allocated once the pool is warm.
+class ParticleSystem {
+  private pool: Particle[] = [];
+  private active: number = 0;
+  private capacity: number;
+  private rng: Random;
+
+  constructor(capacity: number = 1000, rng: Random = new Random()) {
+    this.capacity = capacity;
+    this.rng = rng;
+  }
+
+  get count(): number {
+    return this.active;
+  }
+
+  setRandom(rng: Random) {
+    this.rng = rng;
+  }
+
+  // Bursts stop at capacity rather than evicting live particles
+  emit(config: EmitterConfig, x: number, y: number, count: number = config.count) {
+    for (let i = 0; i < count && this.active < this.capacity; i++) {
+      let particle = this.pool[this.active];
+      if (!particle) {
+        particle = {} as Particle;
+        this.pool.push(particle);
+      }
+      this.active++;
+
+      const angle = ((config.angle === undefined ? this.rng.range(0, 360) : roll(this.rng, config.angle)) * Math.PI) / 180;
+      const speed = roll(this.rng, config.speed);
+      particle.x = x + (config.area ? this.rng.next() * config.area.width : 0);
+      particle.y = y + (config.area ? this.rng.next() * config.area.height : 0);
+      particle.prevX = particle.x;
+      particle.prevY = particle.y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.age = 0;
+      particle.life = roll(this.rng, config.life);
+      if (config.sizeOverLife && Array.isArray(config.size)) {
+        [particle.startSize, particle.endSize] = config.size;
+      } else {
+        particle.startSize = roll(this.rng, config.size);
+        particle.endSize = particle.startSize;
+      }
+      particle.config = config;
+    }
+  }
+
+  // `wind` is a horizontal speed in pixels per second; only particles whose
+  // config sets windFollow feel it
+  update(deltaTime: number, wind: number = 0) {
+    let i = 0;
+    while (i < this.active) {
+      const particle = this.pool[i];
+      particle.age += deltaTime * 1000;
+      const floor = particle.config.floor;
+      if (particle.age >= particle.life || (floor !== undefined && particle.y > floor)) {
+        this.swapRemove(i);
+        continue; // Slot i now holds the particle that was last
+      }
+
+      const { gravity = 0, drag = 0, windFollow = 0 } = particle.config;
+      particle.prevX = particle.x;
+      particle.prevY = particle.y;
+      particle.vy += gravity * deltaTime;
+      if (windFollow > 0) {
+        particle.vx += (wind - particle.vx) * Math.min(1, windFollow * deltaTime);
+      }
+      if (drag > 0) {
+        const damping = Math.max(0, 1 - drag * deltaTime);
+        particle.vx *= damping;
+        particle.vy *= damping;
+      }
+      particle.x += particle.vx * deltaTime;
+      particle.y += particle.vy * deltaTime;
+      i++;
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+    ctx.save();
+    let blend: GlobalCompositeOperation | null = null;
+    for (let i = 0; i < this.active; i++) {
+      const particle = this.pool[i];
+      const config = particle.config;
+      const t = particle.age / particle.life;
+      const nextBlend = config.blend ?? "source-over";
+      if (nextBlend !== blend) {
+        blend = nextBlend;
+        ctx.globalCompositeOperation = blend;
+      }
+
+      const [r, g, b] = isGradient(config.color)
+        ? config.color[0].map((channel, index) => Math.round(lerp(channel, (config.color as [Rgb, Rgb])[1][index], t)))
+        : config.color;
+      const [startAlpha, endAlpha] = config.alpha ?? [1, 0];
+      const opacity = lerp(startAlpha, endAlpha, t);
+      const size = lerp(particle.startSize, particle.endSize, t);
+      const x = lerp(particle.prevX, particle.x, alpha);
+      const y = lerp(particle.prevY, particle.y, alpha);
+      const color = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+
+      switch (config.shape ?? "circle") {
+        case "circle":
+          ctx.fillStyle = color;
+          ctx.beginPath();
+          ctx.arc(x, y, size, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        case "square":
+          ctx.fillStyle = color;
+          ctx.fillRect(x - size / 2, y - size / 2, size, size);
+          break;
+        case "streak": {
+          const streakTime = config.streakTime ?? 0.03;
+          ctx.strokeStyle = color;
+          ctx.lineWidth = size;
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.lineTo(x - particle.vx * streakTime, y - particle.vy * streakTime);
+          ctx.stroke();
+          break;
+        }
+      }
+    }
+    ctx.restore();
+  }
+
+  clear() {
+    this.active = 0;
+  }
+
+  private swapRemove(index: number) {
+    const last = this.active - 1;
+    const removed = this.pool[index];
+    this.pool[index] = this.pool[last];
+    this.pool[last] = removed;
+    this.active = last;
+  }
+}
+
+export { ParticleSystem };
+export type { EmitterConfig, Rgb };
@@ -0,0 +1,158 @@
+interface PoolStats {
+  capacity: number; // Most objects the pool will hand out at once
+  inUse: number;
+  free: number; // Released objects waiting to be reused
+  created: number; // Total allocations over the pool's lifetime
+  peak: number; // Highest inUse seen
+  reused: number; // obtain() calls served without allocating
+  rejected: number; // obtain() calls refused because the pool was at capacity
+}
+
+// Hands out recycled objects so steady-state play allocates nothing. Callers
+// re-initialise what they obtain; the pool never touches object state.
+class ObjectPool<T> {
+  private factory: () => T;
+  private freeList: T[] = [];
+  private capacity: number;
+  private inUse: number = 0;
+  private created: number = 0;
+  private peak: number = 0;
+  private reused: number = 0;
+  private rejected: number = 0;
+
+  constructor(factory: () => T, capacity: number = Infinity) {
+    this.factory = factory;
+    this.capacity = capacity;
+  }
+
+  // Returns null once `capacity` objects are out
+  obtain(): T | null {
+    if (this.inUse >= this.capacity) {
+      this.rejected++;
+      return null;
+    }
+
+    let item = this.freeList.pop();
+    if (item === undefined) {
+      item = this.factory();
+      this.created++;
+    } else {
+      this.reused++;
+    }
+    this.inUse++;
+    this.peak = Math.max(this.peak, this.inUse);
+    return item;
+  }
+
+  release(item: T) {
+    this.inUse--;
+    this.freeList.push(item);
+  }
+
+  // Allocate up front so the first big wave doesn't hitch
+  prewarm(count: number) {
+    while (this.freeList.length < count) {
+      this.freeList.push(this.factory());
+      this.created++;
+    }
+  }
+
+  getStats(): PoolStats {
+    return {
+      capacity: this.capacity,
+      inUse: this.inUse,
+      free: this.freeList.length,
+      created: this.created,
+      peak: this.peak,
+      reused: this.reused,
+      rejected: this.rejected,
+    };
+  }
+}
+
+// Dense, unordered list of live entities. Removal swaps the last entity into
+// the hole, so it is O(1) and never rebuilds the array the way filter() does.
+// Order is not preserved, but it is deterministic.
+class EntityList<T> {
+  private items: T[] = [];
+  private size: number = 0;
+
+  get length(): number {
+    return this.size;
+  }
+
+  add(item: T) {
+    this.items[this.size++] = item;
+  }
+
+  get(index: number): T {
+    return this.items[index];
+  }
+
+  removeAt(index: number): T {
+    const removed = this.items[index];
+    this.size--;
+    this.items[index] = this.items[this.size];
+    this.items[this.size] = undefined as T; // Don't keep released entities reachable from here
+    return removed;
+  }
+
+  remove(item: T): boolean {
+    const index = this.indexOf(item);
+    if (index === -1) return false;
+    this.removeAt(index);
+    return true;
+  }
+
+  // Removes every entity the predicate accepts, handing each one to onRemove
+  // (typically the pool's release). Safe to call add() from the predicate.
+  removeWhere(predicate: (item: T) => boolean, onRemove?: (item: T) => void) {
+    let i = 0;
+    while (i < this.size) {
+      const item = this.items[i];
+      if (predicate(item)) {
+        this.removeAt(i);
+        onRemove?.(item);
+      } else {
+        i++;
+      }
+    }
+  }
+
+  indexOf(item: T): number {
+    for (let i = 0; i < this.size; i++) {
+      if (this.items[i] === item) return i;
+    }
+    return -1;
+  }
+
+  find(predicate: (item: T) => boolean): T | undefined {
+    for (let i = 0; i < this.size; i++) {
+      if (predicate(this.items[i])) return this.items[i];
+    }
+    return undefined;
+  }
+
+  forEach(callback: (item: T, index: number) => void) {
+    for (let i = 0; i < this.size; i++) {
+      callback(this.items[i], i);
+    }
+  }
+
+  clear(onRemove?: (item: T) => void) {
+    if (onRemove) {
+      for (let i = 0; i < this.size; i++) onRemove(this.items[i]);
+    }
+    this.items.fill(undefined as T, 0, this.size);
+    this.size = 0;
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this.size; i++) {
+      yield this.items[i];
+    }
+  }
+}
+
+export { ObjectPool, EntityList };
+export type { PoolStats };
@@ -0,0 +1,56 @@
+// Small seedable PRNG (mulberry32) so runs can be reproduced from a seed
+class Random {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = Random.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  // Returns a float in [0, 1), same contract as Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // Picks an item with probability proportional to its weight
+  weighted<T extends { weight: number }>(items: readonly T[]): T {
+    let roll = this.next() * items.reduce((total, item) => total + item.weight, 0);
+    for (const item of items) {
+      roll -= item.weight;
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+
+  // Independent stream derived from this one, e.g. for cosmetic effects
+  fork(): Random {
+    return new Random(Math.floor(this.next() * 0x100000000));
+  }
+}
+
+export { Random };
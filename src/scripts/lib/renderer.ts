@@ -0,0 +1,82 @@
+// The drawing surface a game renders to, in logical pixels. The DOM Canvas is
+// the real one; HeadlessRenderer stands in where there is no document (Node,
+// tests) so the same game code can run without a browser.
+interface Renderer {
+  readonly ctx: CanvasRenderingContext2D;
+  readonly width: number;
+  readonly height: number;
+  clear(): void;
+  fadeBackground(): void;
+}
+
+interface DrawCall {
+  method: string;
+  args: unknown[];
+}
+
+// Context methods whose return value callers use, so they need a stand-in
+const contextResults: { [method: string]: (...args: unknown[]) => unknown } = {
+  measureText: (text) => ({ width: String(text).length * 6 }),
+  createLinearGradient: () => ({ addColorStop() {} }),
+  createRadialGradient: () => ({ addColorStop() {} }),
+  createPattern: () => null,
+  getTransform: () => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }),
+  isPointInPath: () => false,
+};
+
+// Accepts every 2D context call and draws nothing. Property writes (fillStyle,
+// globalAlpha, ...) are kept so reads see them, and with `record` on each
+// method call is logged for assertions about what a frame drew.
+class HeadlessRenderer implements Renderer {
+  public readonly ctx: CanvasRenderingContext2D;
+  public readonly width: number;
+  public readonly height: number;
+  public calls: DrawCall[] = [];
+  private record: boolean;
+
+  constructor(width: number = 800, height: number = 600, record: boolean = false) {
+    this.width = width;
+    this.height = height;
+    this.record = record;
+
+    const properties: { [name: string]: unknown } = {};
+    const methods: { [name: string]: (...args: unknown[]) => unknown } = {};
+    this.ctx = new Proxy({} as CanvasRenderingContext2D, {
+      get: (_, name) => {
+        if (typeof name !== "string") return undefined;
+        if (name in properties) return properties[name];
+        methods[name] ??= (...args: unknown[]) => {
+          if (this.record) this.calls.push({ method: name, args });
+          return contextResults[name]?.(...args);
+        };
+        return methods[name];
+      },
+      set: (_, name, value) => {
+        if (typeof name === "string") properties[name] = value;
+        return true;
+      },
+    });
+  }
+
+  clear() {
+    this.ctx.fillStyle = "black";
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  fadeBackground() {
+    this.ctx.fillStyle = "rgba(0, 0, 0, 0.1)";
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  // Calls to one method since the last reset, e.g. count("fillText")
+  count(method: string): number {
+    return this.calls.filter((call) => call.method === method).length;
+  }
+
+  reset() {
+    this.calls = [];
+  }
+}
+
+export { HeadlessRenderer };
+export type { Renderer, DrawCall };
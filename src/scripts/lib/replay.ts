@@ -0,0 +1,144 @@
+const REPLAY_VERSION = 1;
+
+interface ReplayInput<Input> {
+  tick: number; // Simulation step the input was applied at
+  input: Input;
+}
+
+// Everything needed to re-run a game exactly: the seed, whatever settings
+// shape the simulation, and the logical inputs with the step they landed on
+interface Replay<Input, Config> {
+  version: number;
+  game: string;
+  seed: number;
+  config: Config;
+  ticks: number; // Length of the run in simulation steps
+  inputs: ReplayInput<Input>[];
+  recordedAt: string; // ISO timestamp
+  summary?: { [key: string]: number }; // e.g. the final score, for a sanity check after playback
+}
+
+class ReplayError extends Error {
+  constructor(message: string) {
+    super(`Invalid replay: ${message}`);
+    this.name = "ReplayError";
+  }
+}
+
+class ReplayRecorder<Input, Config> {
+  private replay: Replay<Input, Config>;
+
+  constructor(game: string, seed: number, config: Config) {
+    this.replay = {
+      version: REPLAY_VERSION,
+      game,
+      seed,
+      config,
+      ticks: 0,
+      inputs: [],
+      recordedAt: new Date().toISOString(),
+    };
+  }
+
+  // Call once per simulation step, with the inputs applied during it (often none)
+  record(tick: number, inputs: readonly Input[]) {
+    inputs.forEach((input) => this.replay.inputs.push({ tick, input }));
+    this.replay.ticks = tick + 1;
+  }
+
+  finish(summary?: { [key: string]: number }) {
+    this.replay.summary = summary;
+  }
+
+  getReplay(): Replay<Input, Config> {
+    return this.replay;
+  }
+}
+
+// Feeds recorded inputs back step by step. Ticks must be asked for in order;
+// rewind() goes back to the start for seeking backwards.
+class ReplayPlayer<Input, Config> {
+  public readonly replay: Replay<Input, Config>;
+  private cursor: number = 0;
+
+  constructor(replay: Replay<Input, Config>) {
+    this.replay = replay;
+  }
+
+  get ticks(): number {
+    return this.replay.ticks;
+  }
+
+  takeInputs(tick: number): Input[] {
+    const inputs: Input[] = [];
+    const recorded = this.replay.inputs;
+    while (this.cursor < recorded.length && recorded[this.cursor].tick <= tick) {
+      inputs.push(recorded[this.cursor].input);
+      this.cursor++;
+    }
+    return inputs;
+  }
+
+  isFinished(tick: number): boolean {
+    return tick >= this.replay.ticks;
+  }
+
+  rewind() {
+    this.cursor = 0;
+  }
+}
+
+function serializeReplay(replay: Replay<unknown, unknown>): string {
+  return JSON.stringify(replay);
+}
+
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return !!value && typeof value === "object";
+}
+
+// Checks the envelope and every input; the game supplies the input check
+function parseReplay<Input, Config>(
+  json: string,
+  game: string,
+  isValidInput: (input: unknown) => input is Input
+): Replay<Input, Config> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new ReplayError("not JSON");
+  }
+
+  if (!isRecord(data) || Array.isArray(data)) throw new ReplayError("not an object");
+  if (data.version !== REPLAY_VERSION) throw new ReplayError(`unsupported version ${JSON.stringify(data.version)}`);
+  if (data.game !== game) throw new ReplayError(`recorded for ${JSON.stringify(data.game)}, not ${game}`);
+  const { seed, ticks, config, inputs } = data;
+  if (typeof seed !== "number" || !Number.isInteger(seed)) throw new ReplayError("seed must be an integer");
+  if (typeof ticks !== "number" || !Number.isInteger(ticks) || ticks < 0) {
+    throw new ReplayError("ticks must be a non-negative integer");
+  }
+  if (!isRecord(config)) throw new ReplayError("config is missing");
+  if (!Array.isArray(inputs)) throw new ReplayError("inputs must be an array");
+  const { summary } = data;
+  if (summary !== undefined && !(isRecord(summary) && Object.values(summary).every((value) => typeof value === "number"))) {
+    throw new ReplayError("summary must map names to numbers");
+  }
+
+  let lastTick = 0;
+  inputs.forEach((entry: unknown, index: number) => {
+    const tick = isRecord(entry) ? entry.tick : undefined;
+    if (typeof tick !== "number" || !Number.isInteger(tick) || tick < lastTick || tick >= ticks) {
+      throw new ReplayError(`inputs[${index}].tick is out of order or range`);
+    }
+    if (!isRecord(entry) || !isValidInput(entry.input)) {
+      throw new ReplayError(`inputs[${index}].input is not a valid input`);
+    }
+    lastTick = tick;
+  });
+
+  // Config is the game's to check, since only it knows the shape
+  return data as unknown as Replay<Input, Config>;
+}
+
+export { ReplayRecorder, ReplayPlayer, ReplayError, parseReplay, serializeReplay };
+export type { Replay, ReplayInput };
@@ -0,0 +1,168 @@
+// A scene owns the screen while it is on top of the stack: enter() is called
+// each time it becomes the top (first push, or the scene above it popping)
+// and exit() each time it stops being the top, so the same instance can be
+// entered and left any number of times.
+interface Scene {
+  enter(manager: SceneManager): void;
+  exit(): void;
+  destroy?(): void; // Final teardown once the manager itself goes away
+}
+
+// Runs between the outgoing scene's exit() and the incoming scene's enter()
+interface SceneTransition {
+  cover(): Promise<void>;
+  reveal(): Promise<void>;
+  destroy?(): void;
+}
+
+// Fades a full-page black layer in and out over the canvas
+class FadeTransition implements SceneTransition {
+  private layer: HTMLDivElement;
+  private duration: number;
+
+  constructor(duration: number = 250) {
+    this.duration = duration;
+    this.layer = document.createElement("div");
+    Object.assign(this.layer.style, {
+      position: "fixed",
+      inset: "0",
+      background: "black",
+      opacity: "0",
+      pointerEvents: "none",
+      transition: `opacity ${duration}ms ease`,
+      zIndex: "10",
+    });
+    document.body.appendChild(this.layer);
+  }
+
+  cover(): Promise<void> {
+    return this.fadeTo(1);
+  }
+
+  reveal(): Promise<void> {
+    return this.fadeTo(0);
+  }
+
+  destroy() {
+    this.layer.remove();
+  }
+
+  private fadeTo(opacity: number): Promise<void> {
+    this.layer.style.opacity = String(opacity);
+    return new Promise((resolve) => setTimeout(resolve, this.duration));
+  }
+}
+
+// Defers building a scene until it is first entered, for scenes whose
+// constructor takes over the canvas or starts listening straight away
+class LazyScene implements Scene {
+  private create: () => Scene;
+  private scene: Scene | null = null;
+
+  constructor(create: () => Scene) {
+    this.create = create;
+  }
+
+  enter(manager: SceneManager) {
+    this.scene ??= this.create();
+    this.scene.enter(manager);
+  }
+
+  exit() {
+    this.scene?.exit();
+  }
+
+  destroy() {
+    this.scene?.destroy?.();
+    this.scene = null;
+  }
+}
+
+// Stack of scenes where only the top one runs. Changes are queued, so a
+// push requested mid-transition waits for the current one to finish.
+class SceneManager {
+  private stack: Scene[] = [];
+  private transition: SceneTransition | null;
+  private queue: Promise<void> = Promise.resolve();
+  private listeners: Set<(scene: Scene | null) => void> = new Set();
+  private active: Scene | null = null; // Last scene entered; lags the stack during a transition
+  private destroyed: boolean = false;
+
+  constructor(transition: SceneTransition | null = null) {
+    this.transition = transition;
+  }
+
+  get current(): Scene | null {
+    return this.stack[this.stack.length - 1] ?? null;
+  }
+
+  get depth(): number {
+    return this.stack.length;
+  }
+
+  push(scene: Scene): Promise<void> {
+    return this.change(() => {
+      this.stack.push(scene);
+    });
+  }
+
+  // The bottom scene stays put; popping it would leave nothing on screen
+  pop(): Promise<void> {
+    return this.change(() => {
+      if (this.stack.length > 1) this.stack.pop();
+    });
+  }
+
+  replace(scene: Scene): Promise<void> {
+    return this.change(() => {
+      this.stack.pop();
+      this.stack.push(scene);
+    });
+  }
+
+  // Leaves the top scene and destroys every scene on the stack. Changes still
+  // queued, or waiting on a transition, are dropped.
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.active?.exit();
+    this.active = null;
+    this.stack.forEach((scene) => scene.destroy?.());
+    this.stack = [];
+    this.listeners.clear();
+    this.transition?.destroy?.();
+  }
+
+  // Called after every change with the new top scene, e.g. to update page chrome
+  onChange(listener: (scene: Scene | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private change(mutate: () => void): Promise<void> {
+    const run = this.queue.then(async () => {
+      if (this.destroyed) return;
+      const previous = this.active;
+      mutate();
+      const next = this.current;
+      if (next === previous) return;
+
+      if (this.transition) await this.transition.cover();
+      if (this.destroyed) return;
+      try {
+        previous?.exit();
+        this.active = next; // Before enter(), so popping a scene that failed to enter re-enters the one below
+        next?.enter(this);
+        this.listeners.forEach((listener) => listener(next));
+      } finally {
+        // Even when a scene throws, so the page isn't left behind a black layer
+        if (this.transition && !this.destroyed) await this.transition.reveal();
+      }
+    });
+    this.queue = run.catch(() => {}); // A failed change shouldn't block later ones
+    return run;
+  }
+}
+
+export { SceneManager, FadeTransition, LazyScene };
+export type { Scene, SceneTransition };
@@ -0,0 +1,194 @@
+import { Log } from "./log";
+
+const log = new Log("sprites");
+
+interface SpriteFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface GridLayout {
+  columns: number;
+  rows: number;
+  frameWidth?: number; // Defaults to image width / columns
+  frameHeight?: number; // Defaults to image height / rows
+  margin?: number;
+  spacing?: number;
+}
+
+// TexturePacker-style "JSON hash" atlas
+interface SpriteAtlas {
+  frames: { [name: string]: { frame: { x: number; y: number; w: number; h: number } } };
+}
+
+type FrameRef = number | string;
+
+interface AnimationClip {
+  frames: FrameRef[];
+  frameRate: number; // Frames per second
+  loop: boolean;
+  flipX?: boolean;
+}
+
+class SpriteSheet {
+  public image: HTMLImageElement;
+  public isLoaded: boolean = false;
+  private frames: SpriteFrame[] = [];
+  private frameNames: Map<string, number> = new Map();
+
+  constructor(src: string, layout: GridLayout | SpriteAtlas) {
+    this.image = typeof Image === "undefined" ? ({} as HTMLImageElement) : new Image(); // Never loads outside a browser
+    this.image.onload = () => {
+      if ("frames" in layout) {
+        this.sliceAtlas(layout);
+      } else {
+        this.sliceGrid(layout);
+      }
+      this.isLoaded = true;
+    };
+    this.image.onerror = (e) => {
+      log.error("Error loading sprite sheet:", src, e);
+    };
+    this.image.src = src;
+  }
+
+  // Drops the decoded image; the sheet draws nothing afterwards
+  destroy() {
+    this.image.onload = null;
+    this.image.onerror = null;
+    this.image.removeAttribute?.("src"); // Missing on the stand-in image outside a browser
+    this.isLoaded = false;
+    this.frames = [];
+    this.frameNames.clear();
+  }
+
+  private sliceGrid(layout: GridLayout) {
+    const margin = layout.margin ?? 0;
+    const spacing = layout.spacing ?? 0;
+    const frameWidth =
+      layout.frameWidth ??
+      (this.image.naturalWidth - margin * 2 - spacing * (layout.columns - 1)) / layout.columns;
+    const frameHeight =
+      layout.frameHeight ??
+      (this.image.naturalHeight - margin * 2 - spacing * (layout.rows - 1)) / layout.rows;
+
+    this.frames = [];
+    for (let row = 0; row < layout.rows; row++) {
+      for (let col = 0; col < layout.columns; col++) {
+        this.frames.push({
+          x: margin + col * (frameWidth + spacing),
+          y: margin + row * (frameHeight + spacing),
+          width: frameWidth,
+          height: frameHeight,
+        });
+      }
+    }
+  }
+
+  private sliceAtlas(atlas: SpriteAtlas) {
+    this.frames = [];
+    this.frameNames.clear();
+    for (const [name, { frame }] of Object.entries(atlas.frames)) {
+      this.frameNames.set(name, this.frames.length);
+      this.frames.push({ x: frame.x, y: frame.y, width: frame.w, height: frame.h });
+    }
+  }
+
+  getFrame(ref: FrameRef): SpriteFrame | undefined {
+    const index = typeof ref === "number" ? ref : this.frameNames.get(ref);
+    return index === undefined ? undefined : this.frames[index];
+  }
+
+  drawFrame(
+    ctx: CanvasRenderingContext2D,
+    ref: FrameRef,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    flipX: boolean = false
+  ) {
+    const frame = this.getFrame(ref);
+    if (!this.isLoaded || !frame) return;
+
+    if (flipX) {
+      ctx.save();
+      ctx.translate(x + width, y);
+      ctx.scale(-1, 1);
+      ctx.drawImage(this.image, frame.x, frame.y, frame.width, frame.height, 0, 0, width, height);
+      ctx.restore();
+    } else {
+      ctx.drawImage(this.image, frame.x, frame.y, frame.width, frame.height, x, y, width, height);
+    }
+  }
+}
+
+class SpriteAnimator {
+  private sheet: SpriteSheet;
+  private clips: { [name: string]: AnimationClip };
+  private currentClip: string;
+  private frameIndex: number = 0;
+  private frameTimer: number = 0;
+  private finished: boolean = false;
+
+  constructor(sheet: SpriteSheet, clips: { [name: string]: AnimationClip }, initialClip: string) {
+    this.sheet = sheet;
+    this.clips = clips;
+    this.currentClip = initialClip;
+  }
+
+  get isLoaded(): boolean {
+    return this.sheet.isLoaded;
+  }
+
+  get clip(): string {
+    return this.currentClip;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  play(name: string, restart: boolean = false) {
+    if (!this.clips[name]) {
+      log.warn(`Unknown animation clip: ${name}`);
+      return;
+    }
+    if (name === this.currentClip && !restart) return;
+
+    this.currentClip = name;
+    this.frameIndex = 0;
+    this.frameTimer = 0;
+    this.finished = false;
+  }
+
+  update(deltaTime: number) {
+    const clip = this.clips[this.currentClip];
+    if (this.finished || clip.frames.length <= 1) return;
+
+    const frameDuration = 1 / clip.frameRate;
+    this.frameTimer += deltaTime;
+
+    while (this.frameTimer >= frameDuration) {
+      this.frameTimer -= frameDuration;
+      if (this.frameIndex < clip.frames.length - 1) {
+        this.frameIndex++;
+      } else if (clip.loop) {
+        this.frameIndex = 0;
+      } else {
+        this.finished = true;
+        break;
+      }
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) {
+    const clip = this.clips[this.currentClip];
+    this.sheet.drawFrame(ctx, clip.frames[this.frameIndex], x, y, width, height, clip.flipX);
+  }
+}
+
+export { SpriteSheet, SpriteAnimator };
+export type { SpriteFrame, GridLayout, SpriteAtlas, AnimationClip, FrameRef };
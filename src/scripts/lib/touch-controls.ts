@@ -0,0 +1,206 @@
+import type { Canvas } from "./canvas";
+
+type Direction = "up" | "down" | "left" | "right";
+
+interface TouchControlsListener {
+  move(direction: Direction, pressed: boolean): void;
+  fire(pressed: boolean): void;
+  swipe(direction: Direction): void;
+  tap(): void;
+}
+
+interface TrackedPointer {
+  role: "joystick" | "fire" | "swipe";
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+  swiped: boolean;
+}
+
+// Virtual joystick (left half), fire button (bottom right) and swipe-to-dash
+// (anywhere else on the right half, where a short touch is a tap). Built on
+// Pointer Events so a mouse drives the same code path as a finger.
+class TouchControls {
+  private canvas: Canvas;
+  private listener: TouchControlsListener;
+  private pointers: Map<number, TrackedPointer> = new Map();
+  private heldDirections: Set<Direction> = new Set();
+  private visible: boolean = false; // Only drawn once a touch has been seen
+  private joystickRadius: number = 50;
+  private deadZone: number = 0.3; // Fraction of the radius before a direction registers
+  private fireRadius: number = 36;
+  private swipeDistance: number = 40;
+  private swipeTime: number = 250; // Milliseconds
+  private boundPointerDown = this.handlePointerDown.bind(this);
+  private boundPointerMove = this.handlePointerMove.bind(this);
+  private boundPointerUp = this.handlePointerUp.bind(this);
+
+  constructor(canvas: Canvas, listener: TouchControlsListener) {
+    this.canvas = canvas;
+    this.listener = listener;
+  }
+
+  attach() {
+    this.canvas.element.style.touchAction = "none";
+    this.canvas.element.addEventListener("pointerdown", this.boundPointerDown);
+    this.canvas.element.addEventListener("pointermove", this.boundPointerMove);
+    this.canvas.element.addEventListener("pointerup", this.boundPointerUp);
+    this.canvas.element.addEventListener("pointercancel", this.boundPointerUp);
+  }
+
+  detach() {
+    this.canvas.element.removeEventListener("pointerdown", this.boundPointerDown);
+    this.canvas.element.removeEventListener("pointermove", this.boundPointerMove);
+    this.canvas.element.removeEventListener("pointerup", this.boundPointerUp);
+    this.canvas.element.removeEventListener("pointercancel", this.boundPointerUp);
+    this.pointers.clear();
+    this.setDirections(new Set());
+  }
+
+  private toCanvasPosition(event: PointerEvent): { x: number; y: number } {
+    return this.canvas.toLogical(event.clientX, event.clientY);
+  }
+
+  private getFireButtonCenter(): { x: number; y: number } {
+    return {
+      x: this.canvas.width - this.fireRadius - 24,
+      y: this.canvas.height - this.fireRadius - 24,
+    };
+  }
+
+  private handlePointerDown(event: PointerEvent) {
+    if (event.pointerType === "touch") this.visible = true;
+    const { x, y } = this.toCanvasPosition(event);
+    const fire = this.getFireButtonCenter();
+
+    let role: TrackedPointer["role"];
+    if (Math.hypot(x - fire.x, y - fire.y) <= this.fireRadius) {
+      role = "fire";
+    } else if (x < this.canvas.width / 2 && !this.hasRole("joystick")) {
+      role = "joystick";
+    } else {
+      role = "swipe";
+    }
+
+    this.canvas.element.setPointerCapture(event.pointerId);
+    this.pointers.set(event.pointerId, {
+      role,
+      startX: x,
+      startY: y,
+      startTime: event.timeStamp,
+      x,
+      y,
+      swiped: false,
+    });
+
+    if (role === "fire") this.listener.fire(true);
+  }
+
+  private handlePointerMove(event: PointerEvent) {
+    const pointer = this.pointers.get(event.pointerId);
+    if (!pointer) return;
+
+    const { x, y } = this.toCanvasPosition(event);
+    pointer.x = x;
+    pointer.y = y;
+
+    if (pointer.role === "joystick") {
+      this.setDirections(this.getJoystickDirections(pointer));
+    } else if (pointer.role === "swipe" && !pointer.swiped) {
+      const dx = x - pointer.startX;
+      const dy = y - pointer.startY;
+      if (
+        Math.hypot(dx, dy) >= this.swipeDistance &&
+        event.timeStamp - pointer.startTime <= this.swipeTime
+      ) {
+        pointer.swiped = true;
+        if (Math.abs(dx) > Math.abs(dy)) {
+          this.listener.swipe(dx > 0 ? "right" : "left");
+        } else {
+          this.listener.swipe(dy > 0 ? "down" : "up");
+        }
+      }
+    }
+  }
+
+  private handlePointerUp(event: PointerEvent) {
+    const pointer = this.pointers.get(event.pointerId);
+    if (!pointer) return;
+    this.pointers.delete(event.pointerId);
+
+    if (pointer.role === "joystick") {
+      this.setDirections(new Set());
+    } else if (pointer.role === "fire") {
+      this.listener.fire(false);
+    } else if (!pointer.swiped) {
+      // Only free touches tap; letting go of the stick or FIRE isn't a confirm
+      const moved = Math.hypot(pointer.x - pointer.startX, pointer.y - pointer.startY);
+      if (moved < this.swipeDistance / 2) this.listener.tap();
+    }
+  }
+
+  private hasRole(role: TrackedPointer["role"]): boolean {
+    return Array.from(this.pointers.values()).some((pointer) => pointer.role === role);
+  }
+
+  private getJoystickDirections(pointer: TrackedPointer): Set<Direction> {
+    const dx = (pointer.x - pointer.startX) / this.joystickRadius;
+    const dy = (pointer.y - pointer.startY) / this.joystickRadius;
+    const directions = new Set<Direction>();
+    if (dx <= -this.deadZone) directions.add("left");
+    if (dx >= this.deadZone) directions.add("right");
+    if (dy <= -this.deadZone) directions.add("up");
+    if (dy >= this.deadZone) directions.add("down");
+    return directions;
+  }
+
+  private setDirections(directions: Set<Direction>) {
+    this.heldDirections.forEach((direction) => {
+      if (!directions.has(direction)) this.listener.move(direction, false);
+    });
+    directions.forEach((direction) => {
+      if (!this.heldDirections.has(direction)) this.listener.move(direction, true);
+    });
+    this.heldDirections = directions;
+  }
+
+  draw(ctx: CanvasRenderingContext2D) {
+    if (!this.visible) return;
+
+    ctx.save();
+    const fire = this.getFireButtonCenter();
+    ctx.beginPath();
+    ctx.arc(fire.x, fire.y, this.fireRadius, 0, Math.PI * 2);
+    ctx.fillStyle = this.hasRole("fire") ? "rgba(255, 255, 0, 0.5)" : "rgba(255, 255, 255, 0.2)";
+    ctx.fill();
+    ctx.fillStyle = "white";
+    ctx.font = "12px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("FIRE", fire.x, fire.y);
+
+    const joystick = Array.from(this.pointers.values()).find((pointer) => pointer.role === "joystick");
+    if (joystick) {
+      const dx = joystick.x - joystick.startX;
+      const dy = joystick.y - joystick.startY;
+      const scale = Math.min(1, this.joystickRadius / (Math.hypot(dx, dy) || 1));
+
+      ctx.beginPath();
+      ctx.arc(joystick.startX, joystick.startY, this.joystickRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.arc(joystick.startX + dx * scale, joystick.startY + dy * scale, 20, 0, Math.PI * 2);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.4)";
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+}
+
+export { TouchControls };
+export type { TouchControlsListener, Direction };
@@ -0,0 +1,253 @@
+import type { Random } from "./random";
+
+type Formation = "random" | "line" | "column" | "v";
+
+interface WaveGroup {
+  enemy: string; // One of the game's enemy type names
+  count: number;
+  formation?: Formation; // Defaults to "random"
+  x?: number; // Formation anchor as a fraction of the field width (0..1), defaults to the centre
+  spacing?: number; // Pixels between formation members, defaults to 50
+  speed?: number | [number, number]; // Pixels per second, or a [min, max] range rolled per enemy
+  delay?: number; // Milliseconds after the wave starts
+  interval?: number; // Milliseconds between members of the group, 0 spawns them together
+}
+
+interface Wave {
+  name?: string;
+  groups: WaveGroup[];
+  waitForClear?: boolean; // Hold the next wave until every enemy is gone
+  pauseAfter?: number; // Milliseconds of quiet before the next wave
+}
+
+interface WaveScript {
+  version: 1;
+  waves: Wave[];
+  after?: "endless" | "loop"; // What happens once the last wave is over, defaults to "endless"
+}
+
+interface SpawnRequest {
+  enemy: string;
+  x: number;
+  y: number;
+  speed: number;
+}
+
+const formations: readonly Formation[] = ["random", "line", "column", "v"];
+
+class WaveScriptError extends Error {
+  public problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid wave script:\n${problems.join("\n")}`);
+    this.name = "WaveScriptError";
+    this.problems = problems;
+  }
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return !!value && typeof value === "object";
+}
+
+function validateGroup(value: unknown, path: string, enemyTypes: readonly string[], problems: string[]) {
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  const group = value;
+  if (typeof group.enemy !== "string" || !enemyTypes.includes(group.enemy)) {
+    problems.push(`${path}.enemy must be one of ${enemyTypes.join(", ")}, got ${JSON.stringify(group.enemy)}`);
+  }
+  if (typeof group.count !== "number" || !Number.isInteger(group.count) || group.count < 1) {
+    problems.push(`${path}.count must be a positive integer`);
+  }
+  if (group.formation !== undefined && !(formations as readonly unknown[]).includes(group.formation)) {
+    problems.push(`${path}.formation must be one of ${formations.join(", ")}`);
+  }
+  if (group.x !== undefined && !(isNonNegative(group.x) && group.x <= 1)) {
+    problems.push(`${path}.x must be between 0 and 1`);
+  }
+  if (group.spacing !== undefined && !isNonNegative(group.spacing)) {
+    problems.push(`${path}.spacing must be a non-negative number`);
+  }
+  if (group.speed !== undefined) {
+    const range: unknown[] = Array.isArray(group.speed) ? group.speed : [group.speed, group.speed];
+    const [min, max] = range;
+    if (range.length !== 2 || !isNonNegative(min) || !isNonNegative(max) || min > max || max === 0) {
+      problems.push(`${path}.speed must be a positive number or a [min, max] range`);
+    }
+  }
+  for (const key of ["delay", "interval"]) {
+    if (group[key] !== undefined && !isNonNegative(group[key])) {
+      problems.push(`${path}.${key} must be a non-negative number of milliseconds`);
+    }
+  }
+}
+
+// Checks untrusted data (e.g. an imported JSON file) and returns it typed, or
+// throws a WaveScriptError listing every problem found
+function loadWaveScript(data: unknown, enemyTypes: readonly string[]): WaveScript {
+  const problems: string[] = [];
+
+  if (!isObject(data)) {
+    throw new WaveScriptError(["script must be an object"]);
+  }
+  const script = data;
+  if (script.version !== 1) {
+    problems.push(`version must be 1, got ${JSON.stringify(script.version)}`);
+  }
+  if (script.after !== undefined && script.after !== "endless" && script.after !== "loop") {
+    problems.push(`after must be "endless" or "loop"`);
+  }
+  if (!Array.isArray(script.waves) || script.waves.length === 0) {
+    problems.push("waves must be a non-empty array");
+  } else {
+    script.waves.forEach((wave: unknown, waveIndex: number) => {
+      const path = `waves[${waveIndex}]`;
+      if (!isObject(wave) || !Array.isArray(wave.groups) || wave.groups.length === 0) {
+        problems.push(`${path}.groups must be a non-empty array`);
+        return;
+      }
+      if (wave.pauseAfter !== undefined && !isNonNegative(wave.pauseAfter)) {
+        problems.push(`${path}.pauseAfter must be a non-negative number of milliseconds`);
+      }
+      wave.groups.forEach((group: unknown, groupIndex: number) =>
+        validateGroup(group, `${path}.groups[${groupIndex}]`, enemyTypes, problems)
+      );
+    });
+  }
+
+  if (problems.length > 0) throw new WaveScriptError(problems);
+  return script as unknown as WaveScript;
+}
+
+// Plays a wave script: call update() every simulation step and spawn what it returns
+class WaveDirector {
+  private script: WaveScript;
+  private rng: Random;
+  private fieldWidth: number;
+  private enemySize: number;
+  private waveIndex: number = -1;
+  private waveTime: number = 0;
+  private schedule: { at: number; request: SpawnRequest }[] = [];
+  private phase: "spawning" | "waiting" | "pause" | "finished" = "pause";
+  private pauseTimer: number = 0;
+
+  constructor(script: WaveScript, rng: Random, fieldWidth: number, enemySize: number = 40) {
+    this.script = script;
+    this.rng = rng;
+    this.fieldWidth = fieldWidth;
+    this.enemySize = enemySize;
+  }
+
+  get isFinished(): boolean {
+    return this.phase === "finished";
+  }
+
+  // 1-based number of the wave in progress, 0 before the first one
+  get waveNumber(): number {
+    return this.waveIndex + 1;
+  }
+
+  get waveName(): string | undefined {
+    return this.script.waves[this.waveIndex]?.name;
+  }
+
+  update(deltaTime: number, aliveEnemies: number): SpawnRequest[] {
+    const spawned: SpawnRequest[] = [];
+
+    switch (this.phase) {
+      case "pause":
+        this.pauseTimer -= deltaTime * 1000;
+        if (this.pauseTimer <= 0) this.startNextWave();
+        break;
+      case "spawning":
+        this.waveTime += deltaTime * 1000;
+        while (this.schedule.length > 0 && this.schedule[0].at <= this.waveTime) {
+          spawned.push(this.schedule.shift()!.request);
+        }
+        if (this.schedule.length === 0) this.phase = "waiting";
+        break;
+      case "waiting": {
+        const wave = this.script.waves[this.waveIndex];
+        if (!wave.waitForClear || aliveEnemies === 0) {
+          this.phase = "pause";
+          this.pauseTimer = wave.pauseAfter ?? 0;
+        }
+        break;
+      }
+    }
+
+    return spawned;
+  }
+
+  private startNextWave() {
+    this.waveIndex++;
+    if (this.waveIndex >= this.script.waves.length) {
+      if (this.script.after === "loop") {
+        this.waveIndex = 0;
+      } else {
+        this.phase = "finished";
+        return;
+      }
+    }
+
+    this.waveTime = 0;
+    this.schedule = this.script.waves[this.waveIndex].groups
+      .flatMap((group) => this.planGroup(group))
+      .sort((a, b) => a.at - b.at);
+    this.phase = "spawning";
+  }
+
+  private planGroup(group: WaveGroup): { at: number; request: SpawnRequest }[] {
+    const formation = group.formation ?? "random";
+    const spacing = group.spacing ?? 50;
+    const maxX = this.fieldWidth - this.enemySize;
+    const anchorX = (group.x ?? 0.5) * maxX;
+    const [minSpeed, maxSpeed] = Array.isArray(group.speed)
+      ? group.speed
+      : [group.speed ?? 50, group.speed ?? 150];
+    const startY = -this.enemySize; // Start above the screen
+
+    return Array.from({ length: group.count }, (_, i) => {
+      let x = anchorX;
+      let y = startY;
+      switch (formation) {
+        case "random":
+          x = this.rng.next() * maxX;
+          break;
+        case "line":
+          x = anchorX + (i - (group.count - 1) / 2) * spacing;
+          break;
+        case "column":
+          y = startY - i * spacing;
+          break;
+        case "v": {
+          // Leader first, then alternating wings trailing behind it
+          const rank = Math.ceil(i / 2);
+          const side = i % 2 === 0 ? 1 : -1;
+          x = anchorX + side * rank * spacing;
+          y = startY - rank * spacing;
+          break;
+        }
+      }
+
+      return {
+        at: (group.delay ?? 0) + i * (group.interval ?? 0),
+        request: {
+          enemy: group.enemy,
+          x: Math.min(maxX, Math.max(0, x)),
+          y,
+          speed: this.rng.range(minSpeed, maxSpeed),
+        },
+      };
+    });
+  }
+}
+
+export { WaveDirector, WaveScriptError, loadWaveScript };
+export type { WaveScript, Wave, WaveGroup, Formation, SpawnRequest };
@@ -0,0 +1,373 @@
+import { ParticleSystem } from "./particles";
+import type { EmitterConfig } from "./particles";
+import type { Random } from "./random";
+import { lerp } from "./fixed-timestep";
+import type { Renderer } from "./renderer";
+
+const weatherPresets = ["clear", "rain", "snow", "fog", "thunderstorm"] as const;
+
+type WeatherPreset = (typeof weatherPresets)[number];
+
+interface WeatherConditions {
+  precipitation: "rain" | "snow" | null;
+  density: number; // Drops or flakes on screen at once
+  wind: number; // Mean horizontal wind in pixels per second, positive blows right
+  gust: number; // How far the wind swings either side of the mean
+  fog: number; // 0..1 opacity of the fog layer
+  darkness: number; // 0..1 opacity of the gloom that lightning cuts through
+  lightning: [number, number] | null; // Seconds between strikes
+}
+
+const weatherConditions: { [preset in WeatherPreset]: WeatherConditions } = {
+  clear: { precipitation: null, density: 0, wind: 0, gust: 0, fog: 0, darkness: 0, lightning: null },
+  rain: { precipitation: "rain", density: 100, wind: 30, gust: 30, fog: 0, darkness: 0.1, lightning: null },
+  snow: { precipitation: "snow", density: 160, wind: 20, gust: 40, fog: 0.1, darkness: 0, lightning: null },
+  fog: { precipitation: null, density: 0, wind: 15, gust: 10, fog: 0.5, darkness: 0.1, lightning: null },
+  thunderstorm: { precipitation: "rain", density: 220, wind: 110, gust: 70, fog: 0.05, darkness: 0.5, lightning: [3, 8] },
+};
+
+interface WeatherPeriod {
+  preset: WeatherPreset;
+  duration: number; // Milliseconds of game time
+}
+
+interface WeatherSchedule {
+  version: 1;
+  periods: WeatherPeriod[];
+  transition?: number; // Milliseconds to blend into each period, defaults to 5000
+  after?: "loop" | "hold"; // Once the last period ends, start over or keep it; defaults to "loop"
+}
+
+class WeatherScheduleError extends Error {
+  public problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid weather schedule:\n${problems.join("\n")}`);
+    this.name = "WeatherScheduleError";
+    this.problems = problems;
+  }
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isWeatherPreset(value: unknown): value is WeatherPreset {
+  return (weatherPresets as readonly unknown[]).includes(value);
+}
+
+// Checks hand-written schedule data, reporting every problem at once
+function loadWeatherSchedule(data: unknown): WeatherSchedule {
+  const problems: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    throw new WeatherScheduleError(["schedule must be an object"]);
+  }
+  const schedule = data as { [key: string]: unknown };
+  if (schedule.version !== 1) {
+    problems.push(`version must be 1, got ${JSON.stringify(schedule.version)}`);
+  }
+  if (schedule.after !== undefined && schedule.after !== "loop" && schedule.after !== "hold") {
+    problems.push(`after must be "loop" or "hold"`);
+  }
+  if (schedule.transition !== undefined && !(isPositive(schedule.transition) || schedule.transition === 0)) {
+    problems.push("transition must be a non-negative number of milliseconds");
+  }
+  if (!Array.isArray(schedule.periods) || schedule.periods.length === 0) {
+    problems.push("periods must be a non-empty array");
+  } else {
+    schedule.periods.forEach((value: unknown, index: number) => {
+      const period = value && typeof value === "object" ? (value as { [key: string]: unknown }) : {};
+      if (!isWeatherPreset(period.preset)) {
+        problems.push(`periods[${index}].preset must be one of ${weatherPresets.join(", ")}`);
+      }
+      if (!isPositive(period.duration)) {
+        problems.push(`periods[${index}].duration must be a positive number of milliseconds`);
+      }
+    });
+  }
+
+  if (problems.length > 0) throw new WeatherScheduleError(problems);
+  return schedule as unknown as WeatherSchedule;
+}
+
+// Which period a moment of game time falls in
+function presetAt(schedule: WeatherSchedule, gameTime: number): WeatherPreset {
+  const total = schedule.periods.reduce((sum, period) => sum + period.duration, 0);
+  const last = schedule.periods[schedule.periods.length - 1];
+  if (gameTime >= total && (schedule.after ?? "loop") === "hold") return last.preset;
+
+  let time = gameTime % total;
+  for (const period of schedule.periods) {
+    if (time < period.duration) return period.preset;
+    time -= period.duration;
+  }
+  return last.preset;
+}
+
+const rainDrop: Readonly<EmitterConfig> = {
+  count: 1,
+  speed: [300, 600], // Pixels per second
+  angle: 90, // Re-aimed along the wind before every emit
+  life: 10000, // Long enough to reach the floor at the slowest speed
+  color: [174, 194, 224],
+  alpha: [0.5, 0.5],
+  size: 1,
+  shape: "streak",
+  windFollow: 3,
+};
+
+const snowFlake: Readonly<EmitterConfig> = {
+  count: 1,
+  speed: [30, 70],
+  angle: 90,
+  life: 60000,
+  color: [240, 245, 255],
+  alpha: [0.85, 0.85],
+  size: [1, 2.5],
+  shape: "circle",
+  windFollow: 1,
+};
+
+const fallSpeeds = { rain: 450, snow: 50 }; // Averages of the speed ranges above
+
+// Precipitation, wind, fog and lightning, blended from one preset to the
+// next. Everything random comes from the Random passed in and update() is
+// meant to run inside the fixed-step loop, so weather replays with the seed.
+class Weather {
+  private renderer: Renderer;
+  private rng: Random;
+  private particles: ParticleSystem;
+  // Own copies, since emit() re-aims them and live particles keep a reference
+  private emitters: { rain: EmitterConfig; snow: EmitterConfig } = { rain: { ...rainDrop }, snow: { ...snowFlake } };
+  private from: WeatherConditions = weatherConditions.clear;
+  private to: WeatherConditions = weatherConditions.clear;
+  private blend: number = 1; // 0..1 from `from` to `to`
+  private transitionTime: number = 5; // Seconds
+  private preset: WeatherPreset = "clear";
+  private time: number = 0; // Seconds of weather simulated, drives the gusts
+  private emitAccumulator = { rain: 0, snow: 0 };
+  private fogOffset: number = 0;
+  private strikeTimer: number = 0;
+  private flash: number = 0; // 1 at a strike, fading to 0
+  private flickerTimer: number = 0; // A second, weaker flash follows each strike
+  private bolt: { x: number; y: number }[] = [];
+  private currentWind: number = 0;
+  public onStrike: (() => void) | null = null; // E.g. for a thunder sound
+
+  constructor(renderer: Renderer, rng: Random, preset: WeatherPreset = "clear") {
+    this.renderer = renderer;
+    this.rng = rng;
+    this.particles = new ParticleSystem(1200, rng.fork());
+    this.applyPreset(preset, 0);
+  }
+
+  get wind(): number {
+    return this.currentWind;
+  }
+
+  get currentPreset(): WeatherPreset {
+    return this.preset;
+  }
+
+  get particleCount(): number {
+    return this.particles.count;
+  }
+
+  // Clears the sky and starts over on a new random stream, e.g. for a new run
+  reset(rng: Random, preset: WeatherPreset = "clear") {
+    this.rng = rng;
+    this.particles.clear();
+    this.particles.setRandom(rng.fork());
+    this.time = 0;
+    this.emitAccumulator = { rain: 0, snow: 0 };
+    this.fogOffset = 0;
+    this.flash = 0;
+    this.flickerTimer = 0;
+    this.bolt = [];
+    this.applyPreset(preset, 0);
+  }
+
+  // Blends toward a preset over `transition` milliseconds; 0 switches at once
+  // and fills the screen so precipitation doesn't start from an empty sky.
+  // Asking for the preset already set does nothing, so this is safe to call
+  // every step.
+  setPreset(preset: WeatherPreset, transition: number = 5000) {
+    if (preset === this.preset) return;
+    this.applyPreset(preset, transition);
+  }
+
+  // Follows a schedule by game time (milliseconds)
+  followSchedule(schedule: WeatherSchedule, gameTime: number) {
+    this.setPreset(presetAt(schedule, gameTime), schedule.transition ?? 5000);
+  }
+
+  update(deltaTime: number) {
+    this.time += deltaTime;
+    if (this.blend < 1) {
+      this.blend = Math.min(1, this.blend + deltaTime / this.transitionTime);
+    }
+    const conditions = this.getConditions();
+    this.currentWind = conditions.wind + conditions.gust * Math.sin(this.time * 0.35) * Math.sin(this.time * 0.13 + 1);
+
+    this.emit("rain", deltaTime);
+    this.emit("snow", deltaTime);
+    this.particles.update(deltaTime, this.currentWind);
+    this.fogOffset += this.currentWind * 0.5 * deltaTime;
+    this.updateLightning(deltaTime);
+  }
+
+  // Drops and flakes, drawn behind the action
+  drawPrecipitation(alpha: number = 1) {
+    this.particles.draw(this.renderer.ctx, alpha);
+  }
+
+  // Fog, gloom and lightning, drawn over the action
+  drawAtmosphere() {
+    const { ctx, width, height } = this.renderer;
+    const conditions = this.getConditions();
+    ctx.save();
+
+    if (conditions.fog > 0) {
+      ctx.fillStyle = `rgba(170, 180, 190, ${conditions.fog * 0.5})`;
+      ctx.fillRect(0, 0, width, height);
+      // Denser banks drifting with the wind, wrapping around the screen
+      const bankWidth = width * 0.8;
+      for (let i = 0; i < 3; i++) {
+        const span = width + bankWidth;
+        const x = ((((this.fogOffset * (1 + i * 0.3) + i * span * 0.37) % span) + span) % span) - bankWidth;
+        ctx.fillStyle = `rgba(190, 200, 210, ${conditions.fog * 0.3})`;
+        ctx.fillRect(x, height * (0.15 + i * 0.3), bankWidth, height * 0.18);
+      }
+    }
+
+    const gloom = conditions.darkness * (1 - Math.min(1, this.flash * 1.5));
+    if (gloom > 0) {
+      ctx.fillStyle = `rgba(0, 0, 10, ${gloom})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    if (this.flash > 0) {
+      ctx.fillStyle = `rgba(220, 225, 255, ${this.flash * 0.35})`;
+      ctx.fillRect(0, 0, width, height);
+      if (this.flash > 0.4 && this.bolt.length > 1) {
+        ctx.strokeStyle = `rgba(255, 255, 255, ${this.flash})`;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(this.bolt[0].x, this.bolt[0].y);
+        this.bolt.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+  }
+
+  private applyPreset(preset: WeatherPreset, transition: number) {
+    this.from = this.getConditions();
+    this.to = weatherConditions[preset];
+    this.preset = preset;
+    this.transitionTime = transition / 1000;
+    this.blend = transition > 0 ? 0 : 1;
+    this.strikeTimer = this.rollStrikeDelay();
+    if (transition === 0) {
+      this.particles.clear();
+      this.fill();
+    }
+  }
+
+  private getConditions(): WeatherConditions {
+    const t = this.blend;
+    return {
+      precipitation: t < 0.5 ? this.from.precipitation : this.to.precipitation,
+      density: lerp(this.from.density, this.to.density, t),
+      wind: lerp(this.from.wind, this.to.wind, t),
+      gust: lerp(this.from.gust, this.to.gust, t),
+      fog: lerp(this.from.fog, this.to.fog, t),
+      darkness: lerp(this.from.darkness, this.to.darkness, t),
+      lightning: t < 0.5 ? this.from.lightning : this.to.lightning,
+    };
+  }
+
+  // Density of one kind of precipitation mid-blend; rain can fade out while snow fades in
+  private getDensity(kind: "rain" | "snow"): number {
+    const from = this.from.precipitation === kind ? this.from.density : 0;
+    const to = this.to.precipitation === kind ? this.to.density : 0;
+    return lerp(from, to, this.blend);
+  }
+
+  // Replaces particles at the rate they leave: density * fall speed / height.
+  // Spawning is shifted upwind by however far the wind carries a particle on
+  // its way down, so slanted precipitation still covers the whole screen.
+  private emit(kind: "rain" | "snow", deltaTime: number) {
+    const density = this.getDensity(kind);
+    if (density <= 0) return;
+    const { width, height } = this.renderer;
+    const config = this.emitters[kind];
+    const fallSpeed = fallSpeeds[kind];
+
+    this.emitAccumulator[kind] += (density * fallSpeed * deltaTime) / height;
+    const count = Math.floor(this.emitAccumulator[kind]);
+    this.emitAccumulator[kind] -= count;
+    if (count === 0) return;
+
+    const drift = this.currentWind * (height / fallSpeed);
+    const angle = (Math.atan2(fallSpeed, this.currentWind) * 180) / Math.PI;
+    config.angle = [angle - 3, angle + 3];
+    config.area = { width: width + Math.abs(drift), height: 0 };
+    config.floor = height;
+    this.particles.emit(config, Math.min(0, -drift), -20, count);
+  }
+
+  // Scatters a full screen of the current precipitation
+  private fill() {
+    (["rain", "snow"] as const).forEach((kind) => {
+      const count = Math.round(this.getDensity(kind));
+      if (count === 0) return;
+      const config = this.emitters[kind];
+      config.angle = 90;
+      config.area = { width: this.renderer.width, height: this.renderer.height };
+      config.floor = this.renderer.height;
+      this.particles.emit(config, 0, 0, count);
+    });
+  }
+
+  private updateLightning(deltaTime: number) {
+    this.flash = Math.max(0, this.flash - deltaTime * 2.5);
+    if (this.flickerTimer > 0) {
+      this.flickerTimer -= deltaTime;
+      if (this.flickerTimer <= 0) this.flash = Math.max(this.flash, 0.7);
+    }
+
+    if (!this.getConditions().lightning) return;
+    this.strikeTimer -= deltaTime;
+    if (this.strikeTimer > 0) return;
+
+    this.strikeTimer = this.rollStrikeDelay();
+    this.flash = 1;
+    this.flickerTimer = 0.12;
+    this.bolt = this.createBolt();
+    this.onStrike?.();
+  }
+
+  private rollStrikeDelay(): number {
+    const range = this.to.lightning;
+    return range ? this.rng.range(range[0], range[1]) : 0;
+  }
+
+  // A jagged line from the top edge down to somewhere in the upper half
+  private createBolt(): { x: number; y: number }[] {
+    const { width, height } = this.renderer;
+    let x = this.rng.range(width * 0.1, width * 0.9);
+    const bottom = this.rng.range(height * 0.25, height * 0.55);
+    const points = [{ x, y: 0 }];
+    const segments = 8;
+    for (let i = 1; i <= segments; i++) {
+      x += this.rng.range(-25, 25);
+      points.push({ x, y: (bottom * i) / segments });
+    }
+    return points;
+  }
+}
+
+export { Weather, WeatherScheduleError, loadWeatherSchedule, presetAt, weatherPresets };
+export type { WeatherPreset, WeatherSchedule, WeatherPeriod, WeatherConditions };
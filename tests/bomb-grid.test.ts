@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Bomb, Game, Player } from "../src/scripts/002-game";
+import type { GridConfig, Point } from "../src/scripts/002-game";
+import { HeadlessRenderer } from "../src/scripts/lib/renderer";
+import { HighScoreStorage } from "../src/scripts/lib/high-scores";
+
+// 400x800 gives a 10 column, 20 row grid with the player starting at (19, 5)
+function createGame(config: GridConfig = {}): Game {
+  return new Game(400, 800, "canvas", { renderer: new HeadlessRenderer(400, 800), seed: 42, ...config });
+}
+
+function advance(game: Game, milliseconds: number, step: number = 16) {
+  for (let elapsed = 0; elapsed < milliseconds; elapsed += step) {
+    game.step(step);
+  }
+}
+
+describe("Bomb", () => {
+  it("explodes in a plus shape at radius 1", () => {
+    const cells = new Bomb(5, 5).explode();
+    expect(cells).toHaveLength(5);
+    expect(cells).toEqual(
+      expect.arrayContaining([
+        { row: 4, col: 5 },
+        { row: 5, col: 4 },
+        { row: 5, col: 5 },
+        { row: 5, col: 6 },
+        { row: 6, col: 5 },
+      ])
+    );
+  });
+
+  it("explodes in a diamond at larger radii", () => {
+    const cells = new Bomb(5, 5, 3000, 2).explode();
+    expect(cells).toHaveLength(13);
+    cells.forEach(({ row, col }) => expect(Math.abs(row - 5) + Math.abs(col - 5)).toBeLessThanOrEqual(2));
+  });
+
+  it("counts down its fuse", () => {
+    const bomb = new Bomb(0, 0, 1000);
+    expect(bomb.update(999)).toBe(true);
+    expect(bomb.update(1)).toBe(false);
+  });
+});
+
+describe("Player bombs", () => {
+  it("won't drop a second bomb during the cooldown", () => {
+    const player = new Player(20, 10);
+    expect(player.dropBomb()).toBe(true);
+    expect(player.dropBomb()).toBe(false);
+    player.updateBombs(1000);
+    expect(player.dropBomb()).toBe(true);
+    expect(player.getBombCount()).toBe(2);
+  });
+
+  it("returns the blast cells on the step the fuse runs out", () => {
+    const player = new Player(20, 10);
+    player.dropBomb();
+    expect(player.updateBombs(2999)).toEqual([]);
+    expect(player.updateBombs(1)).toHaveLength(5);
+    expect(player.getBombCount()).toBe(0);
+  });
+});
+
+describe("findPath", () => {
+  const game = createGame({ enemies: [] });
+
+  function expectWalkable(path: Point[], start: Point) {
+    let previous = start;
+    for (const cell of path) {
+      expect(Math.abs(cell.row - previous.row) + Math.abs(cell.col - previous.col)).toBe(1);
+      previous = cell;
+    }
+  }
+
+  it("finds a shortest path that ends on the goal", () => {
+    const start = { row: 19, col: 5 };
+    const goal = { row: 12, col: 1 };
+    const path = game.findPath(start, goal);
+    expect(path).toHaveLength(11); // Manhattan distance on an open grid
+    expect(path[path.length - 1]).toEqual(goal);
+    expectWalkable(path, start);
+  });
+
+  it("returns nothing when already at the goal", () => {
+    expect(game.findPath({ row: 3, col: 3 }, { row: 3, col: 3 })).toEqual([]);
+  });
+
+  // A tap on the very edge of the canvas lands one cell past the grid, which
+  // used to walk cameFrom off the end and throw
+  it("returns nothing for a goal outside the grid", () => {
+    expect(game.findPath({ row: 19, col: 5 }, { row: 19, col: 10 })).toEqual([]);
+    expect(game.findPath({ row: 19, col: 5 }, { row: 20, col: 5 })).toEqual([]);
+    expect(game.findPath({ row: 19, col: 5 }, { row: -1, col: 0 })).toEqual([]);
+  });
+});
+
+describe("headless bomb grid", () => {
+  it("places the same enemies for the same seed", () => {
+    expect(createGame().getSnapshot().enemies).toEqual(createGame().getSnapshot().enemies);
+    expect(createGame().getSnapshot().enemies).toHaveLength(5);
+  });
+
+  it("moves one cell per move delay while a direction is held", () => {
+    const game = createGame({ enemies: [{ row: 0, col: 0 }] });
+    game.handleAction("move-up", true);
+    advance(game, 100, 100);
+    expect(game.getSnapshot().player).toEqual({ row: 18, col: 5 });
+    advance(game, 400, 100);
+    expect(game.getSnapshot().player).toEqual({ row: 16, col: 5 });
+    game.handleAction("move-up", false);
+    advance(game, 400, 100);
+    expect(game.getSnapshot().player).toEqual({ row: 16, col: 5 });
+  });
+
+  it("walks a tapped path one cell at a time", () => {
+    const game = createGame({ enemies: [{ row: 0, col: 0 }] });
+    game.moveTo({ row: 19, col: 8 });
+    advance(game, 600 * 3 + 16);
+    expect(game.getSnapshot().player).toEqual({ row: 19, col: 8 });
+  });
+
+  it("destroys an enemy caught in the blast and clears the grid", () => {
+    // The enemy starts next to the player, chases it onto the bomb's cell and waits there
+    const game = createGame({ enemies: [{ row: 18, col: 5 }] });
+    game.handleAction("drop-bomb", true);
+    expect(game.getSnapshot().bombs).toBe(1);
+
+    advance(game, 2900, 100);
+    expect(game.getSnapshot().enemies).toEqual([{ row: 19, col: 5 }]);
+
+    advance(game, 200, 100);
+    const snapshot = game.getSnapshot();
+    expect(snapshot.bombs).toBe(0);
+    expect(snapshot.enemies).toEqual([]);
+    expect(snapshot.enemiesDestroyed).toBe(1);
+    expect(snapshot.completed).toBe(true);
+    expect(snapshot.score).toBe(100 + (300 - 3) * 10);
+  });
+
+  it("leaves enemies outside the blast alone", () => {
+    const game = createGame({ enemies: [{ row: 0, col: 0 }] });
+    game.handleAction("drop-bomb", true);
+    advance(game, 3100, 100);
+    expect(game.getSnapshot().enemies).toHaveLength(1);
+    expect(game.getSnapshot().explosions).toHaveLength(5);
+  });
+});
+
+describe("leaving the grid during name entry", () => {
+  let target: EventTarget;
+
+  // Name entry types into the window and the scene hooks run the frame loop
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    target = new EventTarget();
+    vi.stubGlobal("window", target);
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+    vi.stubGlobal("requestAnimationFrame", () => 1);
+    vi.stubGlobal("cancelAnimationFrame", () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function type(keys: string[]) {
+    keys.forEach((key) => target.dispatchEvent(Object.assign(new Event("keydown"), { key })));
+  }
+
+  it("saves nothing until the name is confirmed after coming back", () => {
+    const game = createGame({ enemies: [{ row: 18, col: 5 }], highScores: true });
+    game.handleAction("drop-bomb", true);
+    advance(game, 3100, 100);
+    expect(game.getSnapshot().completed).toBe(true);
+
+    type(["A", "d"]);
+    game.exit();
+    expect(new HighScoreStorage().getTop("bomb-grid")).toEqual([]);
+
+    game.enter();
+    type(["a", "Enter"]);
+    game.exit();
+    expect(new HighScoreStorage().getTop("bomb-grid")).toMatchObject([{ name: "Ada" }]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { SpatialHash, aabbOverlap, box, circle, shapeBounds, shapesOverlap, sweptCircle } from "../src/scripts/lib/collision";
+
+describe("shapesOverlap", () => {
+  it("touches circles at exactly the sum of their radii", () => {
+    expect(shapesOverlap(circle(0, 0, 5), circle(10, 0, 5))).toBe(true);
+    expect(shapesOverlap(circle(0, 0, 5), circle(10.1, 0, 5))).toBe(false);
+  });
+
+  it("tests circles against boxes by their closest point", () => {
+    const target = box({ x: 10, y: 10, width: 20, height: 20 });
+    expect(shapesOverlap(circle(5, 20, 5), target)).toBe(true);
+    expect(shapesOverlap(target, circle(5, 20, 5))).toBe(true);
+    // Near the corner the box's square reach is further than the circle's
+    expect(shapesOverlap(circle(6, 6, 5), target)).toBe(false);
+  });
+
+  it("catches a fast bullet that would tunnel through a target in one step", () => {
+    const target = circle(50, 0, 4);
+    expect(shapesOverlap(circle(100, 0, 2), target)).toBe(false);
+    expect(shapesOverlap(sweptCircle(0, 0, 100, 0, 2), target)).toBe(true);
+  });
+
+  it("keeps a swept shape that didn't move a circle", () => {
+    expect(sweptCircle(3, 4, 3, 4, 2)).toEqual(circle(3, 4, 2));
+  });
+
+  it("bounds a capsule by both ends plus its radius", () => {
+    expect(shapeBounds(sweptCircle(0, 10, 20, 0, 3))).toEqual({ x: -3, y: -3, width: 26, height: 16 });
+  });
+});
+
+describe("aabbOverlap", () => {
+  it("doesn't count boxes that only share an edge", () => {
+    expect(aabbOverlap({ x: 0, y: 0, width: 10, height: 10 }, { x: 9, y: 0, width: 10, height: 10 })).toBe(true);
+    expect(aabbOverlap({ x: 0, y: 0, width: 10, height: 10 }, { x: 10, y: 0, width: 10, height: 10 })).toBe(false);
+  });
+});
+
+describe("SpatialHash", () => {
+  it("reports an item spanning several cells once", () => {
+    const hash = new SpatialHash<string>(10);
+    hash.insert("wide", { x: 0, y: 0, width: 35, height: 5 });
+    expect(hash.occupiedCells).toBe(4);
+    expect(hash.query({ x: 0, y: 0, width: 40, height: 40 })).toEqual(["wide"]);
+  });
+
+  it("only returns items from the queried cells", () => {
+    const hash = new SpatialHash<string>(10);
+    hash.insert("near", { x: 1, y: 1, width: 2, height: 2 });
+    hash.insert("far", { x: 91, y: 91, width: 2, height: 2 });
+    expect(hash.query({ x: 0, y: 0, width: 5, height: 5 })).toEqual(["near"]);
+  });
+
+  it("forgets everything on clear", () => {
+    const hash = new SpatialHash<string>(10);
+    hash.insert("item", { x: 1, y: 1, width: 2, height: 2 });
+    hash.clear();
+    expect(hash.occupiedCells).toBe(0);
+    expect(hash.query({ x: 0, y: 0, width: 5, height: 5 })).toEqual([]);
+  });
+});
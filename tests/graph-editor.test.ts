@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { PathFinder } from "../src/scripts/003-game";
+import type { INode } from "../src/scripts/003-game";
+
+function buildGraph(positions: { [id: string]: [number, number] }, neighbors: { [id: string]: string[] }): Map<string, INode> {
+  const graph = new Map<string, INode>();
+  for (const [id, [x, y]] of Object.entries(positions)) {
+    graph.set(id, { id, neighbors: neighbors[id] ?? [], position: { x, y }, g: 0 });
+  }
+  return graph;
+}
+
+describe("PathFinder", () => {
+  it("follows the graph's edges rather than the straight line", () => {
+    const graph = buildGraph(
+      { a: [0, 0], b: [50, 50], c: [100, 0], d: [50, -200] },
+      { a: ["b", "d"], b: ["a", "c"], c: ["b", "d"], d: ["a", "c"] }
+    );
+    expect(new PathFinder(graph).findShortestPath("a", "c")?.path).toEqual(["a", "b", "c"]);
+  });
+
+  it("returns null when the goal can't be reached", () => {
+    const graph = buildGraph({ a: [0, 0], b: [10, 0], c: [20, 0] }, { a: ["b"], b: ["a"] });
+    expect(new PathFinder(graph).findShortestPath("a", "c")).toBeNull();
+  });
+
+  it("reports every node it expanded", () => {
+    const graph = buildGraph({ a: [0, 0], b: [10, 0], c: [20, 0] }, { a: ["b"], b: ["a", "c"], c: ["b"] });
+    const result = new PathFinder(graph).findShortestPath("a", "c");
+    expect(result?.nodes.map((node) => node.id)).toEqual(["a", "b", "c"]);
+  });
+
+  // D is first queued through A. B then finds a cheaper route to it, and
+  // while the queue kept D's old priority the search reached G through E
+  // first and settled for the longer S-A-E-G.
+  it("reprioritises a queued node when a cheaper route to it is found", () => {
+    const graph = buildGraph(
+      { S: [0, 50], A: [40, 70], B: [20, 10], D: [0, 40], E: [0, 70], G: [100, 50] },
+      {
+        S: ["A", "B"],
+        A: ["S", "D", "E"],
+        B: ["S", "D", "E"],
+        D: ["A", "B", "E", "G"],
+        E: ["A", "B", "D", "G"],
+        G: ["D", "E"],
+      }
+    );
+    expect(new PathFinder(graph).findShortestPath("S", "G")?.path).toEqual(["S", "B", "D", "G"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HighScoreStorage } from "../src/scripts/lib/high-scores";
+
+const storageKey = "canvas-games-high-scores";
+
+function stubStorage(initial: { [key: string]: string } = {}): Map<string, string> {
+  const items = new Map(Object.entries(initial));
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  return items;
+}
+
+const validEntry = {
+  game: "shooter",
+  name: "Ada",
+  score: 120,
+  time: 30000,
+  date: "2024-01-01T00:00:00.000Z",
+  seed: 7,
+  difficulty: "normal",
+};
+
+describe("HighScoreStorage", () => {
+  beforeEach(() => {
+    stubStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps saved scores across a reload", () => {
+    new HighScoreStorage().add({ game: "shooter", name: "Ada", score: 50, time: 1000, seed: 1, difficulty: "normal" });
+    const reloaded = new HighScoreStorage();
+    expect(reloaded.getTop("shooter")).toMatchObject([{ name: "Ada", score: 50 }]);
+    expect(reloaded.getLastName()).toBe("Ada");
+  });
+
+  it("drops corrupt entries and keeps the rest", () => {
+    stubStorage({
+      [storageKey]: JSON.stringify({
+        version: 1,
+        lastName: 42,
+        entries: [
+          validEntry,
+          { ...validEntry, score: "lots" },
+          { ...validEntry, name: null },
+          { ...validEntry, date: "yesterday" },
+          { ...validEntry, game: "pong" },
+          "garbage",
+        ],
+      }),
+    });
+    const storage = new HighScoreStorage();
+    expect(storage.getTop()).toEqual([validEntry]);
+    expect(storage.getLastName()).toBe("");
+  });
+
+  it("upgrades the unversioned array format", () => {
+    stubStorage({ [storageKey]: JSON.stringify([{ name: "Old", score: "80" }, null]) });
+    expect(new HighScoreStorage().getTop()).toMatchObject([{ game: "shooter", name: "Old", score: 80, seed: null }]);
+  });
+});
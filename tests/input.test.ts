@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InputManager } from "../src/scripts/lib/input";
+import type { Bindings } from "../src/scripts/lib/input";
+import { ControlsScreen } from "../src/scripts/lib/controls-screen";
+
+type TestAction = "up" | "down" | "jump";
+
+const storageKey = "test-bindings";
+
+const defaults: Bindings<TestAction> = {
+  up: [{ device: "keyboard", code: "ArrowUp" }, { device: "gamepad", button: 12 }],
+  down: [{ device: "keyboard", code: "ArrowDown" }],
+  jump: [{ device: "keyboard", code: "Space" }],
+};
+
+function stubStorage(): Map<string, string> {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  return items;
+}
+
+function press(target: EventTarget, key: string, code: string = key) {
+  target.dispatchEvent(Object.assign(new Event("keydown"), { key, code }));
+}
+
+describe("InputManager bindings", () => {
+  beforeEach(() => {
+    stubStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps a rebinding across a reload", () => {
+    new InputManager(defaults, storageKey).rebind("jump", { device: "keyboard", code: "KeyX" }, 0);
+    const reloaded = new InputManager(defaults, storageKey);
+    expect(reloaded.getBindings().jump).toEqual([{ device: "keyboard", code: "KeyX" }]);
+  });
+
+  it("moves a key from the action that had it to the one it's bound to", () => {
+    const input = new InputManager(defaults, storageKey);
+    input.rebind("jump", { device: "keyboard", code: "ArrowUp" });
+    expect(input.getBindings().up).toEqual([{ device: "gamepad", button: 12 }]);
+    expect(input.getBindings().jump).toEqual([
+      { device: "keyboard", code: "Space" },
+      { device: "keyboard", code: "ArrowUp" },
+    ]);
+    expect(new InputManager(defaults, storageKey).getBindings().up).toEqual([{ device: "gamepad", button: 12 }]);
+  });
+
+  it("goes back to the defaults on reset", () => {
+    const input = new InputManager(defaults, storageKey);
+    input.unbind("down", 0);
+    input.resetBindings();
+    expect(new InputManager(defaults, storageKey).getBindings()).toEqual(defaults);
+  });
+});
+
+describe("ControlsScreen", () => {
+  let target: EventTarget;
+  let input: InputManager<TestAction>;
+  let screen: ControlsScreen<TestAction>;
+
+  beforeEach(() => {
+    stubStorage();
+    target = new EventTarget();
+    vi.stubGlobal("window", target);
+    input = new InputManager(defaults, storageKey);
+    screen = new ControlsScreen(input, { up: "Up", down: "Down", jump: "Jump" });
+    screen.open();
+  });
+
+  afterEach(() => {
+    screen.close();
+    vi.unstubAllGlobals();
+  });
+
+  it("binds the next key pressed to the chosen action", () => {
+    press(target, "ArrowDown");
+    press(target, "ArrowDown");
+    press(target, "Enter");
+    expect(screen.isCapturing).toBe(true);
+    press(target, "x", "KeyX");
+    expect(screen.isCapturing).toBe(false);
+    expect(new InputManager(defaults, storageKey).getBindings().jump).toEqual([{ device: "keyboard", code: "KeyX" }]);
+  });
+
+  it("replaces only the keyboard binding and takes the key from other actions", () => {
+    press(target, "ArrowDown");
+    press(target, "Enter");
+    press(target, "ArrowUp");
+    expect(input.getBindings()).toMatchObject({
+      up: [{ device: "gamepad", button: 12 }],
+      down: [{ device: "keyboard", code: "ArrowUp" }],
+    });
+  });
+
+  it("clears a key, resets and closes from the keyboard", () => {
+    press(target, "Delete");
+    expect(input.getBindings().up).toEqual([{ device: "gamepad", button: 12 }]);
+    press(target, "ArrowUp"); // Wraps round to "Reset to defaults"
+    press(target, "Enter");
+    expect(input.getBindings()).toEqual(defaults);
+    press(target, "Escape");
+    expect(screen.isOpen).toBe(false);
+  });
+});
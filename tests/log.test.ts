@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Log, clearLog, getLogEntries, getLogLevel, isLogged, setLogLevel } from "../src/scripts/lib/log";
+import type { LogThreshold } from "../src/scripts/lib/log";
+
+describe("Log", () => {
+  let previousLevel: LogThreshold;
+
+  beforeEach(() => {
+    previousLevel = getLogLevel();
+    clearLog();
+    vi.spyOn(console, "debug").mockImplementation(() => {});
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setLogLevel(previousLevel);
+    vi.restoreAllMocks();
+  });
+
+  it("drops entries below the global level", () => {
+    setLogLevel("info");
+    const log = new Log("test");
+    log.debug("hidden");
+    log.info("shown");
+    log.warn("also shown");
+    expect(getLogEntries().map((entry) => entry.message)).toEqual(["shown", "also shown"]);
+    expect(console.debug).not.toHaveBeenCalled();
+    expect(console.info).toHaveBeenCalledWith("[test] shown");
+  });
+
+  it("records nothing when silent", () => {
+    setLogLevel("silent");
+    new Log("test").error("nobody hears this");
+    expect(getLogEntries()).toHaveLength(0);
+    expect(isLogged("error")).toBe(false);
+  });
+
+  it("keeps the category and appends extra values to the message", () => {
+    setLogLevel("debug");
+    new Log("bombs").debug("exploded at", { row: 1, col: 2 }, new Error("boom"));
+    expect(getLogEntries()[0]).toMatchObject({
+      level: "debug",
+      category: "bombs",
+      message: 'exploded at {"row":1,"col":2} boom',
+    });
+  });
+
+  it("keeps only the most recent 500 entries", () => {
+    setLogLevel("debug");
+    const log = new Log("test");
+    for (let i = 0; i < 510; i++) log.debug(`entry ${i}`);
+    const entries = getLogEntries();
+    expect(entries).toHaveLength(500);
+    expect(entries[0].message).toBe("entry 10");
+  });
+});
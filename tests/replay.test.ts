@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { ReplayError, parseReplay } from "../src/scripts/lib/replay";
+
+const isNumber = (input: unknown): input is number => typeof input === "number";
+
+function replayJson(overrides: { [key: string]: unknown } = {}): string {
+  return JSON.stringify({
+    version: 1,
+    game: "test",
+    seed: 42,
+    config: {},
+    ticks: 10,
+    inputs: [
+      { tick: 0, input: 1 },
+      { tick: 5, input: 2 },
+    ],
+    recordedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  });
+}
+
+describe("parseReplay", () => {
+  it("accepts a well-formed replay", () => {
+    expect(parseReplay(replayJson(), "test", isNumber).inputs).toHaveLength(2);
+  });
+
+  it("rejects inputs out of order, past the end or of the wrong shape", () => {
+    const cases = [
+      [{ tick: 5, input: 1 }, { tick: 2, input: 1 }],
+      [{ tick: 10, input: 1 }],
+      [{ tick: 0, input: "left" }],
+      [null],
+    ];
+    cases.forEach((inputs) => {
+      expect(() => parseReplay(replayJson({ inputs }), "test", isNumber)).toThrow(ReplayError);
+    });
+  });
+
+  it("rejects a bad envelope", () => {
+    expect(() => parseReplay("[]", "test", isNumber)).toThrow(ReplayError);
+    expect(() => parseReplay(replayJson({ seed: "42" }), "test", isNumber)).toThrow(ReplayError);
+    expect(() => parseReplay(replayJson({ summary: { score: "lots" } }), "test", isNumber)).toThrow(ReplayError);
+    expect(() => parseReplay(replayJson(), "other", isNumber)).toThrow(/recorded for "test"/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { SceneManager } from "../src/scripts/lib/scenes";
+import type { Scene, SceneTransition } from "../src/scripts/lib/scenes";
+
+function createTransition(calls: string[]): SceneTransition {
+  return {
+    cover: async () => {
+      calls.push("cover");
+    },
+    reveal: async () => {
+      calls.push("reveal");
+    },
+  };
+}
+
+function createScene(name: string, calls: string[]): Scene {
+  return {
+    enter: () => calls.push(`enter ${name}`),
+    exit: () => calls.push(`exit ${name}`),
+  };
+}
+
+describe("SceneManager", () => {
+  it("exits the old scene and enters the new one under the transition", async () => {
+    const calls: string[] = [];
+    const manager = new SceneManager(createTransition(calls));
+    await manager.push(createScene("menu", calls));
+    await manager.push(createScene("game", calls));
+    expect(calls.slice(3)).toEqual(["cover", "exit menu", "enter game", "reveal"]);
+  });
+
+  it("still reveals and takes later changes when a scene fails to enter", async () => {
+    const calls: string[] = [];
+    const manager = new SceneManager(createTransition(calls));
+    await manager.push(createScene("menu", calls));
+    const broken: Scene = {
+      enter: () => {
+        throw new Error("no canvas");
+      },
+      exit: () => {},
+    };
+    await expect(manager.push(broken)).rejects.toThrow("no canvas");
+    expect(calls[calls.length - 1]).toBe("reveal");
+
+    await manager.pop();
+    expect(calls.slice(-3)).toEqual(["cover", "enter menu", "reveal"]);
+  });
+});
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Game } from "../src/scripts/001-game";
+import type { GameConfig, InputEvent } from "../src/scripts/001-game";
+import { HeadlessRenderer } from "../src/scripts/lib/renderer";
+import { HighScoreStorage } from "../src/scripts/lib/high-scores";
+
+const width = 400;
+const height = 800;
+
+function createGame(config: GameConfig = {}): Game {
+  const game = new Game(width, height, { renderer: new HeadlessRenderer(width, height), seed: 1234, ...config });
+  game.startRun();
+  return game;
+}
+
+function run(game: Game, steps: number, inputs: { [step: number]: InputEvent[] } = {}) {
+  for (let i = 0; i < steps; i++) {
+    game.step(inputs[i] ?? []);
+  }
+}
+
+describe("headless shooter", () => {
+  it("doesn't step before a run starts", () => {
+    const game = new Game(width, height, { renderer: new HeadlessRenderer(width, height) });
+    game.step();
+    expect(game.getSnapshot()).toMatchObject({ state: "title", tick: 0 });
+  });
+
+  it("starts a run with a full set of lives at the bottom centre", () => {
+    const snapshot = createGame({ lives: 5 }).getSnapshot();
+    expect(snapshot).toMatchObject({ state: "playing", tick: 0, score: 0, lives: 5, enemies: 0 });
+    expect(snapshot.player.x).toBe((width - snapshot.player.width) / 2);
+    expect(snapshot.player.y).toBe(height - snapshot.player.height - 10);
+  });
+
+  it("advances one 60 Hz tick per step", () => {
+    const game = createGame();
+    run(game, 60);
+    expect(game.getSnapshot().tick).toBe(60);
+    expect(game.getSnapshot().gameTime).toBeCloseTo(1000);
+  });
+
+  it("replays the same run from the same seed and inputs", () => {
+    const inputs: { [step: number]: InputEvent[] } = {
+      10: [{ type: "down", action: "move-left" }],
+      40: [{ type: "up", action: "move-left" }, { type: "down", action: "shoot" }],
+      200: [{ type: "up", action: "shoot" }],
+    };
+    const first = createGame();
+    const second = createGame();
+    run(first, 600, inputs);
+    run(second, 600, inputs);
+    expect(second.getSnapshot()).toEqual(first.getSnapshot());
+  });
+
+  it("spawns enemies inside the playfield in endless mode", () => {
+    const game = createGame({ waves: null });
+    run(game, 30);
+    expect(game.getSnapshot().enemies).toBe(0);
+    run(game, 60); // Past the first one-second spawn interval
+    expect(game.getSnapshot().enemies).toBeGreaterThan(0);
+  });
+
+  it("fires on the press itself and keeps firing while shoot is held", () => {
+    const game = createGame({ waves: null });
+    game.step([{ type: "down", action: "shoot" }]);
+    expect(game.getSnapshot().projectiles).toBeGreaterThan(0);
+    const afterTap = game.getSnapshot().projectiles;
+    run(game, 30);
+    expect(game.getSnapshot().projectiles).toBeGreaterThan(afterTap);
+  });
+
+  it("walks while a direction is held", () => {
+    const game = createGame();
+    const start = game.getSnapshot().player.x;
+    run(game, 30, { 0: [{ type: "down", action: "move-left" }] });
+    // 300 pixels per second for half a second
+    expect(game.getSnapshot().player.x).toBeCloseTo(start - 150);
+  });
+
+  it("dashes on a double tap of a direction", () => {
+    const game = createGame();
+    const start = game.getSnapshot().player.x;
+    run(game, 4, {
+      0: [{ type: "down", action: "move-left" }],
+      1: [{ type: "up", action: "move-left" }],
+      2: [{ type: "down", action: "move-left" }],
+      3: [{ type: "up", action: "move-left" }],
+    });
+    const snapshot = game.getSnapshot();
+    expect(snapshot.dashReadiness).toBeLessThan(1);
+    expect(start - snapshot.player.x).toBeGreaterThan(50); // Two steps of walking cover 10
+  });
+
+  it("doesn't dash on two taps further apart than the threshold", () => {
+    const game = createGame();
+    run(game, 40, {
+      0: [{ type: "down", action: "move-left" }],
+      1: [{ type: "up", action: "move-left" }],
+      30: [{ type: "down", action: "move-left" }], // 500ms later
+      31: [{ type: "up", action: "move-left" }],
+    });
+    expect(game.getSnapshot().dashReadiness).toBe(1);
+  });
+
+  it("draws the HUD to a recording renderer", () => {
+    const renderer = new HeadlessRenderer(width, height, true);
+    const game = new Game(width, height, { renderer, seed: 1 });
+    game.startRun();
+    game.step();
+    renderer.reset();
+    game.draw();
+    const text = renderer.calls.filter((call) => call.method === "fillText").map((call) => call.args[0]);
+    expect(text).toContain("Score: 0");
+    expect(text).toContain("Level 1");
+  });
+
+  it("tells the player about new waves on screen", () => {
+    const renderer = new HeadlessRenderer(width, height, true);
+    const game = new Game(width, height, { renderer, seed: 1 });
+    game.startRun();
+    game.step();
+    renderer.reset();
+    game.draw();
+    const text = renderer.calls.filter((call) => call.method === "fillText").map((call) => call.args[0]);
+    expect(text).toContain("Wave 1: Scouts");
+  });
+});
+
+describe("boss fights", () => {
+  const firstBossStep = 90 * 60; // Level 4 starts 90 seconds in
+
+  it("sends a boss at the level 4 milestone and holds off regular spawns", () => {
+    const game = createGame({ waves: null, lives: 999 });
+    run(game, firstBossStep - 1);
+    expect(game.getSnapshot().boss).toBeNull();
+    run(game, 1);
+    expect(game.getSnapshot().boss).toMatchObject({ state: "warning", phase: 1 });
+    const enemies = game.getSnapshot().enemies;
+    run(game, 360); // Warning, then the fly-in
+    expect(game.getSnapshot().boss?.state).toBe("fighting");
+    expect(game.getSnapshot().enemies).toBeLessThanOrEqual(enemies);
+  });
+
+  it("only takes damage through its weak points once it's fighting", () => {
+    const game = createGame({ waves: null, lives: 999 });
+    run(game, firstBossStep + 1);
+    // The player sits under the hull's middle, so the wing cannons only
+    // cross its fire as the boss sweeps from side to side
+    run(game, 280, { 0: [{ type: "down", action: "shoot" }] });
+    const boss = game.getSnapshot().boss!;
+    expect(boss.state).toBe("fighting");
+    expect(boss.health).toBe(boss.maxHealth);
+    run(game, 600);
+    expect(game.getSnapshot().boss!.health).toBeLessThan(boss.maxHealth);
+  });
+
+  it("can be turned off", () => {
+    const game = createGame({ waves: null, lives: 999, bosses: false });
+    run(game, firstBossStep + 60);
+    expect(game.getSnapshot().boss).toBeNull();
+  });
+});
+
+describe("leaving the game during name entry", () => {
+  let target: EventTarget;
+
+  // Name entry types into the window and the scene hooks run the frame loop
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    target = new EventTarget();
+    vi.stubGlobal("window", target);
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+    vi.stubGlobal("requestAnimationFrame", () => 1);
+    vi.stubGlobal("cancelAnimationFrame", () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function type(keys: string[]) {
+    keys.forEach((key) => target.dispatchEvent(Object.assign(new Event("keydown"), { key })));
+  }
+
+  it("saves nothing until the name is confirmed after coming back", () => {
+    const game = createGame({ waves: null, lives: 1, highScores: true });
+    run(game, 1, { 0: [{ type: "down", action: "shoot" }] });
+    for (let i = 0; i < 60 * 300 && game.getSnapshot().state !== "gameOver"; i++) game.step();
+    expect(game.getSnapshot().state).toBe("gameOver");
+    expect(game.getSnapshot().score).toBeGreaterThan(0);
+
+    type(["A", "d"]);
+    game.exit();
+    expect(new HighScoreStorage().getTop("shooter")).toEqual([]);
+
+    game.enter();
+    type(["a", "Enter"]);
+    game.exit();
+    expect(new HighScoreStorage().getTop("shooter")).toMatchObject([{ name: "Ada" }]);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { WaveScriptError, loadWaveScript } from "../src/scripts/lib/waves";
+import shippedWaves from "../src/data/001-waves.json";
+
+const enemyTypes = ["basic", "tank"];
+
+describe("loadWaveScript", () => {
+  it("accepts the script the shooter ships with", () => {
+    expect(() => loadWaveScript(shippedWaves, ["basic", "strafer", "chaser", "tank", "kamikaze"])).not.toThrow();
+  });
+
+  it("reports every problem at once", () => {
+    const script = {
+      version: 1,
+      waves: [
+        { groups: [{ enemy: "dragon", count: 0, speed: [200, 100] }] },
+        { groups: [] },
+        "not a wave",
+      ],
+    };
+    try {
+      loadWaveScript(script, enemyTypes);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(WaveScriptError);
+      expect((e as WaveScriptError).problems).toHaveLength(5);
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { Weather, WeatherScheduleError, loadWeatherSchedule, presetAt } from "../src/scripts/lib/weather";
+import type { WeatherSchedule } from "../src/scripts/lib/weather";
+import { Random } from "../src/scripts/lib/random";
+import { HeadlessRenderer } from "../src/scripts/lib/renderer";
+import { Game } from "../src/scripts/001-game";
+import shippedSchedule from "../src/data/001-weather.json";
+
+const schedule: WeatherSchedule = {
+  version: 1,
+  periods: [
+    { preset: "rain", duration: 1000 },
+    { preset: "snow", duration: 2000 },
+  ],
+};
+
+describe("loadWeatherSchedule", () => {
+  it("reports every problem at once", () => {
+    try {
+      loadWeatherSchedule({ version: 2, periods: [{ preset: "hail", duration: 0 }] });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(WeatherScheduleError);
+      expect((e as WeatherScheduleError).problems).toHaveLength(3);
+    }
+  });
+
+  it("accepts the schedule the game ships with", () => {
+    expect(() => loadWeatherSchedule(shippedSchedule)).not.toThrow();
+  });
+});
+
+describe("presetAt", () => {
+  it("loops by default", () => {
+    expect(presetAt(schedule, 0)).toBe("rain");
+    expect(presetAt(schedule, 1500)).toBe("snow");
+    expect(presetAt(schedule, 3500)).toBe("rain");
+  });
+
+  it("keeps the last period when told to hold", () => {
+    expect(presetAt({ ...schedule, after: "hold" }, 3500)).toBe("snow");
+  });
+});
+
+describe("Weather", () => {
+  it("gusts the same way from the same seed", () => {
+    const renderer = new HeadlessRenderer(400, 300);
+    const first = new Weather(renderer, new Random(7), "thunderstorm");
+    const second = new Weather(renderer, new Random(7), "thunderstorm");
+    const winds: number[][] = [[], []];
+    for (let i = 0; i < 300; i++) {
+      first.update(1 / 60);
+      second.update(1 / 60);
+      winds[0].push(first.wind);
+      winds[1].push(second.wind);
+    }
+    expect(winds[1]).toEqual(winds[0]);
+    expect(second.particleCount).toBe(first.particleCount);
+  });
+
+  it("stays calm and empty under clear skies", () => {
+    const weather = new Weather(new HeadlessRenderer(400, 300), new Random(7));
+    for (let i = 0; i < 120; i++) weather.update(1 / 60);
+    expect(weather.wind).toBe(0);
+    expect(weather.particleCount).toBe(0);
+  });
+
+  it("keeps its lightning going when a schedule switches without a transition", () => {
+    const storm: WeatherSchedule = { version: 1, transition: 0, periods: [{ preset: "thunderstorm", duration: 60000 }] };
+    const weather = new Weather(new HeadlessRenderer(400, 300), new Random(7), "thunderstorm");
+    let strikes = 0;
+    weather.onStrike = () => strikes++;
+    for (let i = 0; i < 60 * 20; i++) {
+      weather.followSchedule(storm, (i * 1000) / 60);
+      weather.update(1 / 60);
+    }
+    expect(strikes).toBeGreaterThanOrEqual(2);
+  });
+
+  it("lights up on a thunderstorm's schedule", () => {
+    const weather = new Weather(new HeadlessRenderer(400, 300), new Random(7), "thunderstorm");
+    let strikes = 0;
+    weather.onStrike = () => strikes++;
+    for (let i = 0; i < 60 * 20; i++) weather.update(1 / 60); // Strikes are 3-8 seconds apart
+    expect(strikes).toBeGreaterThanOrEqual(2);
+  });
+});
+
+describe("weather in the shooter", () => {
+  it("follows the schedule as game time passes", () => {
+    const game = new Game(400, 800, { renderer: new HeadlessRenderer(400, 800), seed: 1, weather: schedule, waves: null });
+    game.startRun();
+    expect(game.getSnapshot().weather).toBe("rain");
+    for (let i = 0; i < 90; i++) game.step();
+    expect(game.getSnapshot().weather).toBe("snow");
+  });
+
+  it("keeps the air still without a schedule", () => {
+    const game = new Game(400, 800, { renderer: new HeadlessRenderer(400, 800), seed: 1, weather: null });
+    game.startRun();
+    for (let i = 0; i < 60; i++) game.step();
+    expect(game.getSnapshot()).toMatchObject({ weather: "clear", wind: 0 });
+  });
+});